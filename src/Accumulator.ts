@@ -0,0 +1,167 @@
+import { FactoryContext } from "./core/context";
+import { DomainError, PrecisionMismatchError } from "./core/errors";
+import FixedPrecision, {
+  type FixedPrecisionConfig,
+  type FixedPrecisionValue,
+  type FPContext,
+} from "./FixedPrecision";
+import {
+  type Moments,
+  mean_of_total,
+  moments_stddev_value,
+  moments_variance_value,
+} from "./statistics";
+
+export default class Accumulator {
+  private readonly ctx: FPContext;
+  private size = 0n;
+  private total = 0n;
+  private squares = 0n;
+  private minimum: bigint | undefined;
+  private maximum: bigint | undefined;
+
+  constructor(config: FixedPrecisionConfig) {
+    this.ctx = FactoryContext(config);
+  }
+
+  public static isAccumulator(value: unknown): value is Accumulator {
+    return value instanceof Accumulator;
+  }
+
+  private toRaw(value: FixedPrecisionValue): bigint {
+    if (typeof value === "bigint") return value;
+    if (value instanceof FixedPrecision && value.places() === this.ctx.places) {
+      return value.raw();
+    }
+    return new FixedPrecision(value, this.ctx).raw();
+  }
+
+  public push(value: FixedPrecisionValue): this {
+    const raw = this.toRaw(value);
+    this.size += 1n;
+    this.total += raw;
+    this.squares += raw * raw;
+    if (this.minimum === undefined || raw < this.minimum) this.minimum = raw;
+    if (this.maximum === undefined || raw > this.maximum) this.maximum = raw;
+    return this;
+  }
+
+  public pushAll(values: Iterable<FixedPrecisionValue>): this {
+    for (const value of values) {
+      this.push(value);
+    }
+    return this;
+  }
+
+  public merge(other: Accumulator): this {
+    if (other.ctx.places !== this.ctx.places) {
+      throw new PrecisionMismatchError(
+        "Cannot operate on different precisions",
+        "merge",
+        [this.ctx.places, other.ctx.places],
+      );
+    }
+    if (other.minimum === undefined || other.maximum === undefined) {
+      return this;
+    }
+
+    this.size += other.size;
+    this.total += other.total;
+    this.squares += other.squares;
+    if (this.minimum === undefined || other.minimum < this.minimum) {
+      this.minimum = other.minimum;
+    }
+    if (this.maximum === undefined || other.maximum > this.maximum) {
+      this.maximum = other.maximum;
+    }
+    return this;
+  }
+
+  public reset(): this {
+    this.size = 0n;
+    this.total = 0n;
+    this.squares = 0n;
+    this.minimum = undefined;
+    this.maximum = undefined;
+    return this;
+  }
+
+  private result(raw: bigint): FixedPrecision {
+    return new FixedPrecision(raw, this.ctx);
+  }
+
+  private moments(operation: string): Moments {
+    if (this.size === 0n) {
+      throw new DomainError("Accumulator has no values", operation);
+    }
+    return { count: this.size, total: this.total, squares: this.squares };
+  }
+
+  public count(): number {
+    return Number(this.size);
+  }
+
+  public sum(): FixedPrecision {
+    return this.result(this.total);
+  }
+
+  public min(): FixedPrecision {
+    const { minimum } = this;
+    if (minimum === undefined) {
+      throw new DomainError("Accumulator has no values", "min");
+    }
+    return this.result(minimum);
+  }
+
+  public max(): FixedPrecision {
+    const { maximum } = this;
+    if (maximum === undefined) {
+      throw new DomainError("Accumulator has no values", "max");
+    }
+    return this.result(maximum);
+  }
+
+  public mean(): FixedPrecision {
+    const { count, total } = this.moments("mean");
+    return this.result(mean_of_total(total, count, this.ctx, "mean"));
+  }
+
+  public variance(): FixedPrecision {
+    return this.result(
+      moments_variance_value(
+        this.moments("variance"),
+        false,
+        this.ctx,
+        "variance",
+      ),
+    );
+  }
+
+  public sampleVariance(): FixedPrecision {
+    return this.result(
+      moments_variance_value(
+        this.moments("sampleVariance"),
+        true,
+        this.ctx,
+        "sampleVariance",
+      ),
+    );
+  }
+
+  public stddev(): FixedPrecision {
+    return this.result(
+      moments_stddev_value(this.moments("stddev"), false, this.ctx, "stddev"),
+    );
+  }
+
+  public sampleStddev(): FixedPrecision {
+    return this.result(
+      moments_stddev_value(
+        this.moments("sampleStddev"),
+        true,
+        this.ctx,
+        "sampleStddev",
+      ),
+    );
+  }
+}
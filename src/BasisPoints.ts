@@ -0,0 +1,93 @@
+import FixedPrecision, {
+  type FixedPrecisionConfig,
+  type FixedPrecisionValue,
+  type FormatOptions,
+} from "./FixedPrecision";
+import type Money from "./Money";
+import Percent from "./Percent";
+import {
+  BASIS_POINT_EXPONENT,
+  PERCENT_EXPONENT,
+  parse_unit_value,
+  strip_unit_suffix,
+  unit_ratio,
+  unit_to_decimal,
+  unit_value,
+} from "./units";
+
+const BASIS_POINT_SUFFIXES = ["bp", "bps"] as const;
+
+export default class BasisPoints {
+  public readonly value: FixedPrecision;
+
+  private constructor(value: FixedPrecision) {
+    this.value = value;
+  }
+
+  public static of(value: FixedPrecisionValue): BasisPoints {
+    return new BasisPoints(unit_value(value));
+  }
+
+  public static parse(str: string, config?: FixedPrecisionConfig): BasisPoints {
+    return new BasisPoints(
+      parse_unit_value(
+        strip_unit_suffix(str, BASIS_POINT_SUFFIXES, "parse"),
+        config,
+      ),
+    );
+  }
+
+  public static fromDecimal(value: FixedPrecisionValue): BasisPoints {
+    return new BasisPoints(unit_value(value).shiftedBy(BASIS_POINT_EXPONENT));
+  }
+
+  public static isBasisPoints(value: unknown): value is BasisPoints {
+    return value instanceof BasisPoints;
+  }
+
+  public toDecimal(): FixedPrecision {
+    return unit_to_decimal(this.value, BASIS_POINT_EXPONENT);
+  }
+
+  public toPercent(): Percent {
+    return Percent.of(
+      unit_to_decimal(this.value, BASIS_POINT_EXPONENT - PERCENT_EXPONENT),
+    );
+  }
+
+  public applyTo(amount: FixedPrecision): FixedPrecision;
+  public applyTo(amount: Money): Money;
+  public applyTo(amount: FixedPrecision | Money): FixedPrecision | Money {
+    return amount instanceof FixedPrecision
+      ? amount.mul(unit_ratio(this.value, BASIS_POINT_EXPONENT))
+      : amount.mul(this);
+  }
+
+  public addTo(amount: FixedPrecision): FixedPrecision;
+  public addTo(amount: Money): Money;
+  public addTo(amount: FixedPrecision | Money): FixedPrecision | Money {
+    return amount instanceof FixedPrecision
+      ? amount.add(this.applyTo(amount))
+      : amount.add(this.applyTo(amount));
+  }
+
+  public subtractFrom(amount: FixedPrecision): FixedPrecision;
+  public subtractFrom(amount: Money): Money;
+  public subtractFrom(amount: FixedPrecision | Money): FixedPrecision | Money {
+    return amount instanceof FixedPrecision
+      ? amount.sub(this.applyTo(amount))
+      : amount.sub(this.applyTo(amount));
+  }
+
+  public toFormat(options: FormatOptions = {}): string {
+    return `${this.value.toFormat(options)}bp`;
+  }
+
+  public toString(): string {
+    return `${this.value.toString()}bp`;
+  }
+
+  public toJSON(): string {
+    return this.toString();
+  }
+}
@@ -0,0 +1,199 @@
+import { divide_with_signals } from "./arithmetic";
+import { exact_factor } from "./construction/exact_factor";
+import {
+  assertPlaces,
+  assertRoundingMode,
+  FactoryContext,
+  withPlaces,
+} from "./core/context";
+import { DomainError, format_scaled, ParseError } from "./core/errors";
+import { currency_minor_units } from "./currency";
+import {
+  exact_rate,
+  invert_ratio,
+  multiply_ratios,
+  parse_rates_json,
+  reduce_ratio,
+} from "./exchange";
+import FixedPrecision, {
+  type FixedPrecisionConfig,
+  type FPContext,
+  type Ratio,
+  type RoundingMode,
+} from "./FixedPrecision";
+import { powerOfTen } from "./utils";
+
+export type ExchangeRate = string | number | FixedPrecision;
+
+export interface ExchangeRatesConfig
+  extends Omit<FixedPrecisionConfig, "places"> {
+  /**
+   * Currency the rates are quoted against
+   */
+  base: string;
+
+  /**
+   * Units of each currency bought by one unit of the base currency
+   * @default {}
+   */
+  rates?: Record<string, ExchangeRate>;
+}
+
+export interface ConvertOptions {
+  /**
+   * Decimal places of the result
+   * @default the destination currency's minor units
+   */
+  places?: number;
+
+  /**
+   * Rounding mode at the destination scale
+   * @default the table's rounding mode
+   */
+  roundingMode?: RoundingMode;
+}
+
+export type ExchangeRatesJSON = {
+  base: string;
+  rates: Record<string, ExchangeRate>;
+  pairs?: Record<string, ExchangeRate>;
+};
+
+const PAIR_SEPARATOR = "/";
+
+function pair_key(from: string, to: string): string {
+  return `${from}${PAIR_SEPARATOR}${to}`;
+}
+
+export default class ExchangeRates {
+  public readonly base: string;
+  private readonly ctx: FPContext;
+  private readonly pairs = new Map<string, Ratio>();
+
+  constructor(config: ExchangeRatesConfig) {
+    const { base, rates = {}, ...options } = config;
+    this.ctx = FactoryContext({ ...options, places: 0 });
+    this.base = base.toUpperCase();
+    for (const [currency, rate] of Object.entries(rates)) {
+      this.set(currency, rate);
+    }
+  }
+
+  public static fromJSON(
+    json: string | ExchangeRatesJSON,
+    config: Omit<ExchangeRatesConfig, "base" | "rates"> = {},
+  ): ExchangeRates {
+    const { base, rates, pairs = {} } = parse_rates_json(json, "fromJSON");
+    const table = new ExchangeRates({ ...config, base, rates });
+    for (const [key, rate] of Object.entries(pairs)) {
+      const [from, to, ...rest] = key.split(PAIR_SEPARATOR);
+      if (!from || !to || rest.length > 0) {
+        throw new ParseError(`Invalid currency pair: ${key}`, "fromJSON", [
+          key,
+        ]);
+      }
+      table.setPair(from, to, rate);
+    }
+    return table;
+  }
+
+  public set(currency: string, rate: ExchangeRate): this {
+    return this.setPair(this.base, currency, rate);
+  }
+
+  public setPair(from: string, to: string, rate: ExchangeRate): this {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    if (source === target) {
+      throw new DomainError(
+        "A currency pair needs two different currencies",
+        "setPair",
+        [source, target],
+      );
+    }
+    this.pairs.delete(pair_key(target, source));
+    this.pairs.set(pair_key(source, target), exact_rate(rate, "setPair"));
+    return this;
+  }
+
+  public currencies(): string[] {
+    const codes = new Set([this.base]);
+    for (const key of this.pairs.keys()) {
+      for (const code of key.split(PAIR_SEPARATOR)) codes.add(code);
+    }
+    return [...codes].sort();
+  }
+
+  private leg(from: string, to: string): Ratio | undefined {
+    if (from === to) return { numerator: 1n, denominator: 1n };
+    const direct = this.pairs.get(pair_key(from, to));
+    if (direct) return direct;
+    const inverse = this.pairs.get(pair_key(to, from));
+    return inverse && invert_ratio(inverse);
+  }
+
+  private exactRate(from: string, to: string, operation: string): Ratio {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    const direct = this.leg(source, target);
+    if (direct) return reduce_ratio(direct);
+
+    const toBase = this.leg(source, this.base);
+    const fromBase = this.leg(this.base, target);
+    if (toBase && fromBase) return multiply_ratios(toBase, fromBase);
+    throw new DomainError(
+      `No exchange rate from ${source} to ${target}`,
+      operation,
+      [source, target],
+    );
+  }
+
+  public rate(from: string, to: string): Ratio {
+    return this.exactRate(from, to, "rate");
+  }
+
+  public convert(
+    amount: ExchangeRate,
+    from: string,
+    to: string,
+    options: ConvertOptions = {},
+  ): FixedPrecision {
+    const { numerator, denominator } = this.exactRate(from, to, "convert");
+    const places =
+      options.places ?? currency_minor_units(to.toUpperCase(), "convert");
+    assertPlaces(places, "convert");
+    const roundingMode = options.roundingMode ?? this.ctx.roundingMode;
+    assertRoundingMode(roundingMode, "convert");
+
+    const ctx = withPlaces(this.ctx, places, roundingMode);
+    const { coefficient, scale } = exact_factor(amount, "convert");
+    return new FixedPrecision(
+      divide_with_signals(
+        coefficient * numerator * ctx.SCALE,
+        denominator * powerOfTen(scale),
+        ctx,
+        roundingMode,
+        "convert",
+        [amount.toString(), from, to],
+      ),
+      ctx,
+    );
+  }
+
+  public toJSON(): ExchangeRatesJSON {
+    const rates: Record<string, string> = {};
+    const pairs: Record<string, string> = {};
+    for (const [key, { numerator, denominator }] of this.pairs) {
+      const [from, to] = key.split(PAIR_SEPARATOR);
+      const rate = format_scaled(numerator, denominator);
+      if (from === this.base) {
+        rates[to] = rate;
+      } else {
+        pairs[key] = rate;
+      }
+    }
+    return Object.keys(pairs).length > 0
+      ? { base: this.base, rates, pairs }
+      : { base: this.base, rates };
+  }
+}
@@ -1,9 +1,14 @@
+import { allocate_units, exact_weights } from "./allocation";
 import {
   cbrt_value,
+  div_value,
+  divide_with_signals,
   exp_value,
   log_value,
   log2_value,
   log10_value,
+  mod_value,
+  mul_value,
   natural_log_value,
   power,
   precision_value,
@@ -14,13 +19,56 @@ import {
   significant_digits_value,
   sqrt_value,
 } from "./arithmetic";
+import type BasisPoints from "./BasisPoints";
 import {
   combinations_value,
   factorial_value,
   permutations_value,
 } from "./combinatorics";
+import {
+  e_value,
+  ln2_value,
+  ln10_value,
+  phi_value,
+  pi_value,
+  sqrt2_value,
+} from "./constants";
+import { exact_factor } from "./construction/exact_factor";
 import { collectValues } from "./construction/values";
-import { configureContext, FactoryContext, makeContext } from "./core/context";
+import {
+  assertPlaces,
+  assertRoundingMode,
+  configureContext,
+  FactoryContext,
+  makeContext,
+  withPlaces,
+} from "./core/context";
+import { DomainError, ParseError, PrecisionMismatchError } from "./core/errors";
+import {
+  raise_signal,
+  SIGNALS,
+  signal_division,
+  signal_rounded,
+  signal_rounding,
+} from "./core/signals";
+import { cash_rounding_step } from "./currency";
+import { day_number, year_fraction } from "./daycount";
+import {
+  amortization_schedule,
+  type Finance_Work,
+  from_finance_work,
+  fv_value,
+  get_finance_work,
+  ipmt_value,
+  irr_value,
+  nper_value,
+  npv_value,
+  pmt_value,
+  ppmt_value,
+  pv_value,
+  rate_value,
+  xirr_value,
+} from "./finance";
 import { fraction_value, get_denominator, get_numerator } from "./fraction";
 import {
   isNegativeValue,
@@ -32,7 +80,17 @@ import {
   logicalXorValues,
 } from "./logical";
 import { cross_product, dot_product } from "./matrix";
+import Matrix from "./matrix/Matrix";
 import { from_number_with_ctx, to_number_with_ctx } from "./numeric";
+import type Percent from "./Percent";
+import {
+  add_percentage_value,
+  discount_breakdown,
+  invoice_tax,
+  remove_percentage_value,
+  type Tax_Breakdown,
+  tax_breakdown,
+} from "./pricing";
 import {
   compareValues,
   equalsValue,
@@ -41,12 +99,40 @@ import {
   lessThanOrEqualValue,
   lessThanValue,
 } from "./relational";
-import { max_values, min_values, sum_values } from "./statistics";
 import {
+  correlation_value,
+  covariance_value,
+  linear_regression,
+  max_values,
+  mean_value,
+  median_value,
+  min_values,
+  mode_values,
+  quantile_fraction,
+  quantile_value,
+  range_value,
+  stddev_value,
+  sum_values,
+  variance_value,
+  weighted_mean_value,
+} from "./statistics";
+import {
+  format_to_parts_with_ctx,
+  from_localized_string_with_ctx,
   from_string_with_ctx,
   to_base_with_ctx,
   to_string_with_ctx,
 } from "./string";
+import {
+  cumulative_sum_values,
+  ema_values,
+  percent_change_values,
+  rolling_extreme_values,
+  rolling_stddev_values,
+  rolling_sum_values,
+  sma_values,
+  wma_values,
+} from "./timeseries";
 import {
   acos_value,
   acosh_value,
@@ -74,25 +160,144 @@ import {
   tan_value,
   tanh_value,
 } from "./trigonometry";
+import { powerOfTen } from "./utils";
 
 export type RoundingMode = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
 export type Comparison = -1 | 0 | 1;
 
 export type FixedPrecisionValue = string | number | bigint | FixedPrecision;
+export type RateValue =
+  | string
+  | number
+  | FixedPrecision
+  | Percent
+  | BasisPoints;
+
+export type Signal =
+  | "Clamped"
+  | "DivisionByZero"
+  | "Inexact"
+  | "InvalidOperation"
+  | "Overflow"
+  | "Rounded";
+
+export type ExcessDigitsPolicy = "round" | "truncate" | "throw";
+export type NumberConversion = "shortest" | "exact";
+export type AllocationStrategy = "largestRemainder" | "first" | "roundRobin";
+export type PaymentTiming = "end" | "begin";
+export type QuantileMethod =
+  | "linear"
+  | "lower"
+  | "higher"
+  | "nearest"
+  | "midpoint";
+export type TaxMode = "exclusive" | "inclusive";
+export type TaxRounding = "line" | "invoice";
+export type DayCountConvention =
+  | "ACT/360"
+  | "ACT/365F"
+  | "ACT/ACT ISDA"
+  | "30/360 US"
+  | "30E/360";
+
+export type Ratio = {
+  numerator: bigint;
+  denominator: bigint;
+};
+
+export type CashFlow = {
+  amount: FixedPrecisionValue;
+  date: string | Date;
+};
+
+export type TaxBreakdown = {
+  net: FixedPrecision;
+  taxes: FixedPrecision[];
+  tax: FixedPrecision;
+  gross: FixedPrecision;
+};
+
+export type InvoiceTaxBreakdown = TaxBreakdown & {
+  lines: TaxBreakdown[];
+};
+
+export type DiscountBreakdown = {
+  original: FixedPrecision;
+  discounts: FixedPrecision[];
+  discount: FixedPrecision;
+  net: FixedPrecision;
+};
+
+export type AmortizationRow = {
+  period: number;
+  payment: FixedPrecision;
+  interest: FixedPrecision;
+  principal: FixedPrecision;
+  balance: FixedPrecision;
+};
+
+export type LinearRegression = {
+  slope: FixedPrecision;
+  intercept: FixedPrecision;
+  rSquared: FixedPrecision;
+  predict: (x: FixedPrecisionValue) => FixedPrecision;
+};
+
+export type FixedPrecisionFactory = {
+  (val: FixedPrecisionValue): FixedPrecision;
+  fromNumber: (value: number, conversion?: NumberConversion) => FixedPrecision;
+};
 
 export type FPContext = {
   places: number;
   roundingMode: RoundingMode;
   SCALE: bigint;
   SCALENUMBER: number;
+  traps: ReadonlySet<Signal>;
+  flags: Set<Signal>;
+  allowBareDecimalPoint: boolean;
+  onExcessDigits: ExcessDigitsPolicy;
+  numberConversion: NumberConversion;
 };
 
+export { default as Accumulator } from "./Accumulator";
+export { default as BasisPoints } from "./BasisPoints";
+export {
+  ConfigurationError,
+  CurrencyMismatchError,
+  DivisionByZeroError,
+  DomainError,
+  type ErrorCode,
+  FixedPrecisionError,
+  ParseError,
+  PrecisionMismatchError,
+  SignalError,
+} from "./core/errors";
+export {
+  type ConvertOptions,
+  default as ExchangeRates,
+  type ExchangeRate,
+  type ExchangeRatesConfig,
+  type ExchangeRatesJSON,
+} from "./ExchangeRates";
+export {
+  type CurrencyDisplay,
+  default as Money,
+  type MoneyConfig,
+  type MoneyFactor,
+  type MoneyFactory,
+  type MoneyFormatOptions,
+  type MoneySettleOptions,
+} from "./Money";
+export { default as Matrix } from "./matrix/Matrix";
+export { default as Percent } from "./Percent";
+
 /**
  *  FixedPrecision Configuration System
  */
 export interface FixedPrecisionConfig {
   /**
-   * Number of decimal places to use (0-20)
+   * Number of decimal places to use (0-1000)
    * @default 8
    */
   places: number;
@@ -111,6 +316,226 @@ export interface FixedPrecisionConfig {
    * @default 4
    */
   roundingMode?: RoundingMode;
+
+  /**
+   * Signals that throw a SignalError instead of only setting a flag:
+   * Clamped, DivisionByZero, Inexact, InvalidOperation, Overflow, Rounded
+   * @default ["DivisionByZero", "InvalidOperation"]
+   */
+  traps?: Signal[];
+
+  /**
+   * Accept strings with a leading or trailing decimal point, like ".5" or "5."
+   * @default true
+   */
+  allowBareDecimalPoint?: boolean;
+
+  /**
+   * What to do with input digits beyond the configured places:
+   * "round" uses the rounding mode, "truncate" drops them, "throw" raises a ParseError
+   * @default "round"
+   */
+  onExcessDigits?: ExcessDigitsPolicy;
+
+  /**
+   * How JavaScript numbers are converted:
+   * "shortest" uses the digits String(n) shows, "exact" uses the full binary expansion
+   * @default "shortest"
+   */
+  numberConversion?: NumberConversion;
+}
+
+export interface ParseOptions {
+  /**
+   * BCP 47 locale whose separators, signs and grouping sizes are expected
+   * @default undefined (",", "." and groups of 3)
+   */
+  locale?: string;
+
+  /**
+   * Overrides the locale's group separator
+   */
+  groupSeparator?: string;
+
+  /**
+   * Overrides the locale's decimal separator
+   */
+  decimalSeparator?: string;
+
+  /**
+   * Primary group size, then the size of every group further left
+   * @default [3]
+   */
+  groupSizes?: number[];
+
+  /**
+   * Accept a currency symbol or ISO 4217 code before or after the number, like "$" or "EUR"
+   * @default false
+   */
+  allowCurrencySymbol?: boolean;
+
+  /**
+   * ISO 4217 code whose symbol in the locale is also accepted, like "US$" for "USD" in "en-CA"
+   */
+  currency?: string;
+
+  /**
+   * Decimal places of the result
+   * @default the default context's places
+   */
+  places?: number;
+
+  /**
+   * Rounding mode of the result, also used for excess digits
+   * @default the default context's rounding mode
+   */
+  roundingMode?: RoundingMode;
+}
+
+export interface TaxOptions {
+  /**
+   * Whether the amount excludes the taxes or already includes them
+   * @default "exclusive"
+   */
+  mode?: TaxMode;
+
+  /**
+   * Apply each tax to the amount plus the taxes listed before it
+   * @default false
+   */
+  compound?: boolean;
+}
+
+export interface InvoiceTaxOptions extends TaxOptions {
+  /**
+   * Round taxes on every line, or once on the invoice total and allocate
+   * them back to the lines
+   * @default "line"
+   */
+  rounding?: TaxRounding;
+}
+
+export interface AmortizationOptions {
+  /**
+   * Amount borrowed; its context sets the precision of every row
+   */
+  principal: FixedPrecisionValue;
+
+  /**
+   * Nominal annual interest rate, like "0.06" for 6%
+   */
+  annualRate: FixedPrecisionValue;
+
+  /**
+   * Length of the loan in years
+   */
+  term: number;
+
+  /**
+   * Payments per year
+   * @default 12
+   */
+  frequency?: number;
+
+  /**
+   * Leading periods in which only interest is paid
+   * @default 0
+   */
+  interestOnlyPeriods?: number;
+
+  /**
+   * Principal paid on top of the scheduled payment, either every period or
+   * keyed by period number
+   * @default 0
+   */
+  extraPayments?: FixedPrecisionValue | Record<number, FixedPrecisionValue>;
+}
+
+export type SignDisplay =
+  | "auto"
+  | "always"
+  | "exceptZero"
+  | "negative"
+  | "never";
+
+export type FormatPart = {
+  type: "minusSign" | "plusSign" | "integer" | "group" | "decimal" | "fraction";
+  value: string;
+};
+
+export interface CashRoundingRule {
+  /**
+   * Smallest cash amount, like "0.05" for Swiss francs
+   */
+  increment: string | number | FixedPrecision;
+
+  /**
+   * Rounding mode used to reach the increment
+   * @default the amount's rounding mode
+   */
+  roundingMode?: RoundingMode;
+}
+
+export interface FormatOptions {
+  /**
+   * BCP 47 locale whose separators, signs and grouping sizes are used
+   * @default undefined (",", "." and groups of 3)
+   */
+  locale?: string;
+
+  /**
+   * Insert group separators into the integer part
+   * @default true
+   */
+  useGrouping?: boolean;
+
+  /**
+   * Overrides the locale's group separator
+   */
+  groupSeparator?: string;
+
+  /**
+   * Overrides the locale's decimal separator
+   */
+  decimalSeparator?: string;
+
+  /**
+   * Primary group size, then the size of every group further left,
+   * e.g. [3, 2] for Indian grouping (12,34,567)
+   * @default [3]
+   */
+  groupSizes?: number[];
+
+  /**
+   * Fraction digits always shown, padded with zeros
+   * @default 0
+   */
+  minimumFractionDigits?: number;
+
+  /**
+   * Fraction digits shown at most; extra digits are rounded
+   * @default the context's places
+   */
+  maximumFractionDigits?: number;
+
+  /**
+   * Rounding mode used when maximumFractionDigits drops digits
+   * @default the context's rounding mode
+   */
+  roundingMode?: RoundingMode;
+
+  /**
+   * When to show a sign: "auto" and "negative" only for negative values,
+   * "always" for every value, "exceptZero" for non-zero values, "never" never
+   * @default "auto"
+   */
+  signDisplay?: SignDisplay;
+
+  /**
+   * Cash rounding applied before formatting, as a rule or a currency code
+   * with a registered rule
+   */
+  cashRounding?: string | CashRoundingRule;
 }
 
 export default class FixedPrecision {
@@ -131,17 +556,80 @@ export default class FixedPrecision {
     this.value = FixedPrecision.toScaled(value, this.ctx);
   }
 
-  public static create(
-    config: FixedPrecisionConfig,
-  ): (val: FixedPrecisionValue) => FixedPrecision {
+  public static create(config: FixedPrecisionConfig): FixedPrecisionFactory {
     const ctx = FactoryContext(config);
-    return (val: FixedPrecisionValue) => new FixedPrecision(val, ctx);
+    return Object.assign(
+      (val: FixedPrecisionValue) => new FixedPrecision(val, ctx),
+      {
+        fromNumber: (value: number, conversion?: NumberConversion) =>
+          FixedPrecision.fromNumberWithContext(value, ctx, conversion),
+      },
+    );
+  }
+
+  public static parse(str: string, options: ParseOptions = {}): FixedPrecision {
+    const { places, roundingMode } = FixedPrecision.defaultContext;
+    if (options.places !== undefined) {
+      assertPlaces(options.places, "parse");
+    }
+    if (options.roundingMode !== undefined) {
+      assertRoundingMode(options.roundingMode, "parse");
+    }
+    const ctx = withPlaces(
+      FixedPrecision.defaultContext,
+      options.places ?? places,
+      options.roundingMode ?? roundingMode,
+    );
+    return FixedPrecision.fromRawWithContext(
+      from_localized_string_with_ctx(str, ctx, options),
+      ctx,
+    );
+  }
+
+  public static fromNumber(
+    value: number,
+    conversion?: NumberConversion,
+  ): FixedPrecision {
+    return FixedPrecision.fromNumberWithContext(
+      value,
+      FixedPrecision.defaultContext,
+      conversion,
+    );
+  }
+
+  private static fromNumberWithContext(
+    value: number,
+    ctx: FPContext,
+    conversion?: NumberConversion,
+  ): FixedPrecision {
+    return FixedPrecision.fromRawWithContext(
+      from_number_with_ctx(value, ctx, conversion),
+      ctx,
+    );
   }
 
   public static isFixedPrecision(value: unknown): value is FixedPrecision {
     return value instanceof FixedPrecision;
   }
 
+  public static flags(): Signal[] {
+    return SIGNALS.filter((signal) =>
+      FixedPrecision.defaultContext.flags.has(signal),
+    );
+  }
+
+  public static clearFlags(): void {
+    FixedPrecision.defaultContext.flags.clear();
+  }
+
+  public flags(): Signal[] {
+    return SIGNALS.filter((signal) => this.ctx.flags.has(signal));
+  }
+
+  public clearFlags(): void {
+    this.ctx.flags.clear();
+  }
+
   protected fromRaw(rawValue: bigint): FixedPrecision {
     const instance = new FixedPrecision(0n, this.ctx);
     instance.value = rawValue;
@@ -157,13 +645,20 @@ export default class FixedPrecision {
     return instance;
   }
 
-  private coerce(value: FixedPrecisionValue): FixedPrecision {
+  private coerce(
+    value: FixedPrecisionValue,
+    operation: string,
+  ): FixedPrecision {
     if (value instanceof FixedPrecision) {
       if (
         this.ctx.places !== value.ctx.places ||
         this.ctx.roundingMode !== value.ctx.roundingMode
       ) {
-        throw new Error("Cannot operate on different precisions");
+        throw new PrecisionMismatchError(
+          "Cannot operate on different precisions",
+          operation,
+          [this.toString(), value.toString()],
+        );
       } else {
         return value;
       }
@@ -178,9 +673,13 @@ export default class FixedPrecision {
       return scale_value(value.value, ctx.places, ctx.roundingMode, value.ctx);
     }
     if (typeof value === "bigint") return value;
-    if (typeof value === "number") return from_number_with_ctx(value, ctx);
+    if (typeof value === "number") {
+      return from_number_with_ctx(value, ctx);
+    }
     if (typeof value === "string") return from_string_with_ctx(value, ctx);
-    throw new Error(`Invalid value type: ${typeof value}`);
+    throw new ParseError(`Invalid value type: ${typeof value}`, "parse", [
+      value,
+    ]);
   }
 
   private toScaledValue(value: FixedPrecisionValue): bigint {
@@ -188,12 +687,12 @@ export default class FixedPrecision {
   }
 
   public toNumber(places?: number): number {
-    if (places === undefined) {
-      return to_number_with_ctx(this.value, this.ctx);
+    const scaled = places === undefined ? this : this.rescale(places);
+    const result = to_number_with_ctx(scaled.value, scaled.ctx);
+    if (!Number.isFinite(result)) {
+      raise_signal(this.ctx, "Overflow", "toNumber", [this.value]);
     }
-
-    const scaled = this.scale(places);
-    return to_number_with_ctx(scaled.value, scaled.ctx);
+    return result;
   }
 
   public toString(trimZeros = true): string {
@@ -205,27 +704,27 @@ export default class FixedPrecision {
   }
 
   public cmp(other: FixedPrecisionValue): Comparison {
-    return compareValues(this.value, this.coerce(other).value);
+    return compareValues(this.value, this.coerce(other, "cmp").value);
   }
 
   public eq(other: FixedPrecisionValue): boolean {
-    return equalsValue(this.value, this.coerce(other).value);
+    return equalsValue(this.value, this.coerce(other, "eq").value);
   }
 
   public gt(other: FixedPrecisionValue): boolean {
-    return greaterThanValue(this.value, this.coerce(other).value);
+    return greaterThanValue(this.value, this.coerce(other, "gt").value);
   }
 
   public gte(other: FixedPrecisionValue): boolean {
-    return greaterThanOrEqualValue(this.value, this.coerce(other).value);
+    return greaterThanOrEqualValue(this.value, this.coerce(other, "gte").value);
   }
 
   public lt(other: FixedPrecisionValue): boolean {
-    return lessThanValue(this.value, this.coerce(other).value);
+    return lessThanValue(this.value, this.coerce(other, "lt").value);
   }
 
   public lte(other: FixedPrecisionValue): boolean {
-    return lessThanOrEqualValue(this.value, this.coerce(other).value);
+    return lessThanOrEqualValue(this.value, this.coerce(other, "lte").value);
   }
 
   public cmpRaw(other: FixedPrecisionValue): Comparison {
@@ -269,15 +768,15 @@ export default class FixedPrecision {
   }
 
   public and(other: FixedPrecisionValue): boolean {
-    return logicalAndValues(this.value, this.coerce(other).value);
+    return logicalAndValues(this.value, this.coerce(other, "and").value);
   }
 
   public or(other: FixedPrecisionValue): boolean {
-    return logicalOrValues(this.value, this.coerce(other).value);
+    return logicalOrValues(this.value, this.coerce(other, "or").value);
   }
 
   public xor(other: FixedPrecisionValue): boolean {
-    return logicalXorValues(this.value, this.coerce(other).value);
+    return logicalXorValues(this.value, this.coerce(other, "xor").value);
   }
 
   public isInteger(): boolean {
@@ -301,7 +800,7 @@ export default class FixedPrecision {
   }
 
   public add(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value + this.coerce(other).value);
+    return this.fromRaw(this.value + this.coerce(other, "add").value);
   }
 
   public plus(other: FixedPrecisionValue): FixedPrecision {
@@ -309,16 +808,36 @@ export default class FixedPrecision {
   }
 
   public sub(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value - this.coerce(other).value);
+    return this.fromRaw(this.value - this.coerce(other, "sub").value);
   }
 
   public minus(other: FixedPrecisionValue): FixedPrecision {
     return this.fromRaw(this.value - this.toScaledValue(other));
   }
 
-  public mul(other: FixedPrecisionValue): FixedPrecision {
+  public mul(
+    other: FixedPrecisionValue | Ratio,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
+    if (typeof other === "object" && !(other instanceof FixedPrecision)) {
+      const { numerator, denominator } = other;
+      const operands = [this.toString(), `${numerator}/${denominator}`];
+      if (signal_division(this.ctx, this.value, denominator, "mul", operands)) {
+        return this.fromRaw(0n);
+      }
+      return this.fromRaw(
+        divide_with_signals(
+          this.value * numerator,
+          denominator,
+          this.ctx,
+          rm,
+          "mul",
+          operands,
+        ),
+      );
+    }
     return this.fromRaw(
-      (this.value * this.coerce(other).value) / this.ctx.SCALE,
+      mul_value(this.value, this.coerce(other, "mul").value, this.ctx, rm),
     );
   }
 
@@ -326,37 +845,73 @@ export default class FixedPrecision {
     return this.fromRaw(this.value * this.toScaledValue(other));
   }
 
-  public div(other: FixedPrecisionValue): FixedPrecision {
+  public div(
+    other: FixedPrecisionValue,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
     return this.fromRaw(
-      (this.value * this.ctx.SCALE) / this.coerce(other).value,
+      div_value(this.value, this.coerce(other, "div").value, this.ctx, rm),
     );
   }
 
   public ratio(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value / this.toScaledValue(other));
+    const divisor = this.toScaledValue(other);
+    if (
+      signal_division(this.ctx, this.value, divisor, "ratio", [
+        this.value,
+        divisor,
+      ])
+    ) {
+      return this.fromRaw(0n);
+    }
+    return this.fromRaw(this.value / divisor);
   }
 
   public mod(other: FixedPrecisionValue): FixedPrecision {
     return this.fromRaw(
-      (this.value * this.ctx.SCALE) % this.coerce(other).value,
+      mod_value(this.value, this.coerce(other, "mod").value, this.ctx),
     );
   }
 
   public rem(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value % this.toScaledValue(other));
+    const divisor = this.toScaledValue(other);
+    if (
+      signal_division(this.ctx, this.value, divisor, "rem", [
+        this.value,
+        divisor,
+      ])
+    ) {
+      return this.fromRaw(0n);
+    }
+    return this.fromRaw(this.value % divisor);
   }
 
   public idiv(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(
-      (this.value / this.coerce(other).value) * this.ctx.SCALE,
-    );
+    const divisor = this.coerce(other, "idiv").value;
+    if (
+      signal_division(this.ctx, this.value, divisor, "idiv", [
+        this.value,
+        divisor,
+      ])
+    ) {
+      return this.fromRaw(0n);
+    }
+    return this.fromRaw((this.value / divisor) * this.ctx.SCALE);
   }
 
   public divmod(other: FixedPrecisionValue): {
     quotient: FixedPrecision;
     remainder: FixedPrecision;
   } {
-    const coerced = this.coerce(other);
+    const coerced = this.coerce(other, "divmod");
+    if (
+      signal_division(this.ctx, this.value, coerced.value, "divmod", [
+        this.value,
+        coerced.value,
+      ])
+    ) {
+      return { quotient: this.fromRaw(0n), remainder: this.fromRaw(0n) };
+    }
     const quotient = this.fromRaw(
       (this.value * this.ctx.SCALE) / coerced.value,
     );
@@ -373,7 +928,15 @@ export default class FixedPrecision {
     quotient: FixedPrecision;
     remainder: FixedPrecision;
   } {
-    const coerced = this.coerce(other);
+    const coerced = this.coerce(other, "idivmod");
+    if (
+      signal_division(this.ctx, this.value, coerced.value, "idivmod", [
+        this.value,
+        coerced.value,
+      ])
+    ) {
+      return { quotient: this.fromRaw(0n), remainder: this.fromRaw(0n) };
+    }
     const quotient = this.fromRaw(
       (this.value / coerced.value) * this.ctx.SCALE,
     );
@@ -391,6 +954,127 @@ export default class FixedPrecision {
     return d.remainder;
   }
 
+  public allocate(
+    ratios: RateValue[],
+    strategy: AllocationStrategy = "largestRemainder",
+  ): FixedPrecision[] {
+    return allocate_units(
+      this.value,
+      exact_weights(ratios, "allocate"),
+      strategy,
+      "allocate",
+    ).map((part) => this.fromRaw(part));
+  }
+
+  public addPercentage(
+    rate: RateValue,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
+    return this.fromRaw(add_percentage_value(this.value, rate, this.ctx, rm));
+  }
+
+  public removePercentage(
+    rate: RateValue,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
+    return this.fromRaw(
+      remove_percentage_value(this.value, rate, this.ctx, rm),
+    );
+  }
+
+  private toTaxBreakdown(breakdown: Tax_Breakdown): TaxBreakdown {
+    return {
+      net: this.fromRaw(breakdown.net),
+      taxes: breakdown.taxes.map((tax) => this.fromRaw(tax)),
+      tax: this.fromRaw(breakdown.gross - breakdown.net),
+      gross: this.fromRaw(breakdown.gross),
+    };
+  }
+
+  public tax(
+    rates: RateValue | RateValue[],
+    options: TaxOptions = {},
+  ): TaxBreakdown {
+    const { mode = "exclusive", compound = false } = options;
+    return this.toTaxBreakdown(
+      tax_breakdown(
+        this.value,
+        Array.isArray(rates) ? rates : [rates],
+        FixedPrecision.isInclusive(mode, "tax"),
+        compound,
+        this.ctx,
+        "tax",
+      ),
+    );
+  }
+
+  public static invoiceTax(
+    lines: FixedPrecisionValue[],
+    rates: RateValue | RateValue[],
+    options: InvoiceTaxOptions = {},
+  ): InvoiceTaxBreakdown {
+    const { mode = "exclusive", compound = false, rounding = "line" } = options;
+    const ctx = FixedPrecision.resolveContext(lines);
+    const zero = FixedPrecision.fromRawWithContext(0n, ctx);
+    const { lines: breakdowns, total } = invoice_tax(
+      lines.map((line) => FixedPrecision.normalizeTo(line, ctx).value),
+      Array.isArray(rates) ? rates : [rates],
+      FixedPrecision.isInclusive(mode, "invoiceTax"),
+      compound,
+      rounding,
+      ctx,
+      "invoiceTax",
+    );
+    return {
+      ...zero.toTaxBreakdown(total),
+      lines: breakdowns.map((line) => zero.toTaxBreakdown(line)),
+    };
+  }
+
+  private static isInclusive(mode: TaxMode, operation: string): boolean {
+    if (mode !== "exclusive" && mode !== "inclusive") {
+      throw new DomainError(
+        "Invalid tax mode. Must be exclusive or inclusive",
+        operation,
+        [mode],
+      );
+    }
+    return mode === "inclusive";
+  }
+
+  public discount(rates: RateValue | RateValue[]): DiscountBreakdown {
+    const { discounts, net } = discount_breakdown(
+      this.value,
+      Array.isArray(rates) ? rates : [rates],
+      this.ctx,
+    );
+    return {
+      original: this,
+      discounts: discounts.map((discount) => this.fromRaw(discount)),
+      discount: this.fromRaw(this.value - net),
+      net: this.fromRaw(net),
+    };
+  }
+
+  public split(
+    parts: number,
+    strategy: AllocationStrategy = "largestRemainder",
+  ): FixedPrecision[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new DomainError(
+        "Number of parts must be a positive integer",
+        "split",
+        [parts],
+      );
+    }
+    return allocate_units(
+      this.value,
+      Array.from({ length: parts }, () => 1n),
+      strategy,
+      "split",
+    ).map((part) => this.fromRaw(part));
+  }
+
   public dividedToIntegerBy(other: FixedPrecisionValue): FixedPrecision {
     return this.idiv(other);
   }
@@ -399,18 +1083,25 @@ export default class FixedPrecision {
     min: FixedPrecisionValue,
     max: FixedPrecisionValue,
   ): FixedPrecision {
-    const lower = this.coerce(min);
-    const upper = this.coerce(max);
+    const lower = this.coerce(min, "clamp");
+    const upper = this.coerce(max, "clamp");
 
+    const operands = [this.value, lower.value, upper.value];
     if (greaterThanValue(lower.value, upper.value)) {
-      throw new Error("min must be less than or equal to max");
+      throw new DomainError(
+        "min must be less than or equal to max",
+        "clamp",
+        operands.map((operand) => to_string_with_ctx(operand, this.ctx)),
+      );
     }
 
     if (lessThanValue(this.value, lower.value)) {
+      raise_signal(this.ctx, "Clamped", "clamp", operands);
       return this.fromRaw(lower.value);
     }
 
     if (greaterThanValue(this.value, upper.value)) {
+      raise_signal(this.ctx, "Clamped", "clamp", operands);
       return this.fromRaw(upper.value);
     }
 
@@ -428,24 +1119,40 @@ export default class FixedPrecision {
     increment: FixedPrecisionValue,
     rm: RoundingMode = this.ctx.roundingMode,
   ): FixedPrecision {
-    const step = this.coerce(increment).abs().value;
+    const step = this.coerce(increment, "toNearest").abs().value;
     if (step === 0n) {
-      throw new Error("Increment must be non-zero");
+      throw new DomainError("Increment must be non-zero", "toNearest", [
+        this.toString(),
+        "0",
+      ]);
     }
 
+    signal_rounding(this.ctx, this.value, step, "toNearest", [
+      this.value,
+      step,
+    ]);
     return this.fromRaw(round_to_scale_value(this.value, step, rm) * step);
   }
 
+  public cashRound(ruleOrCurrency: string | CashRoundingRule): FixedPrecision {
+    const { step, roundingMode } = cash_rounding_step(
+      ruleOrCurrency,
+      this.ctx,
+      "cashRound",
+    );
+    return this.toNearest(this.fromRaw(step), roundingMode);
+  }
+
   public bitAnd(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value & this.coerce(other).value);
+    return this.fromRaw(this.value & this.coerce(other, "bitAnd").value);
   }
 
   public bitOr(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value | this.coerce(other).value);
+    return this.fromRaw(this.value | this.coerce(other, "bitOr").value);
   }
 
   public bitXor(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value ^ this.coerce(other).value);
+    return this.fromRaw(this.value ^ this.coerce(other, "bitXor").value);
   }
 
   public bitNot(): FixedPrecision {
@@ -454,14 +1161,22 @@ export default class FixedPrecision {
 
   public leftShift(n: number): FixedPrecision {
     if (!Number.isInteger(n) || n < 0) {
-      throw new Error("Shift amount must be a non-negative integer");
+      throw new DomainError(
+        "Shift amount must be a non-negative integer",
+        "leftShift",
+        [this.toString(), n],
+      );
     }
     return this.fromRaw(this.value << BigInt(n));
   }
 
   public rightArithShift(n: number): FixedPrecision {
     if (!Number.isInteger(n) || n < 0) {
-      throw new Error("Shift amount must be a non-negative integer");
+      throw new DomainError(
+        "Shift amount must be a non-negative integer",
+        "rightArithShift",
+        [this.toString(), n],
+      );
     }
     return this.fromRaw(this.value >> BigInt(n));
   }
@@ -470,16 +1185,19 @@ export default class FixedPrecision {
     return this.fromRaw(-this.value);
   }
 
-  public pow(exp: number): FixedPrecision {
-    return this.fromRaw(power(this.value, exp, this.ctx.SCALE));
+  public pow(
+    exp: number,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
+    return this.fromRaw(power(this.value, exp, this.ctx, rm));
   }
 
-  public square(): FixedPrecision {
-    return this.fromRaw(power(this.value, 2, this.ctx.SCALE));
+  public square(rm: RoundingMode = this.ctx.roundingMode): FixedPrecision {
+    return this.fromRaw(power(this.value, 2, this.ctx, rm));
   }
 
-  public cube(): FixedPrecision {
-    return this.fromRaw(power(this.value, 3, this.ctx.SCALE));
+  public cube(rm: RoundingMode = this.ctx.roundingMode): FixedPrecision {
+    return this.fromRaw(power(this.value, 3, this.ctx, rm));
   }
 
   public sqrt(): FixedPrecision {
@@ -503,7 +1221,7 @@ export default class FixedPrecision {
       return this.ln();
     }
     return this.fromRaw(
-      log_value(this.value, this.coerce(base).value, this.ctx),
+      log_value(this.value, this.coerce(base, "log").value, this.ctx),
     );
   }
 
@@ -557,7 +1275,7 @@ export default class FixedPrecision {
 
   public atan2(x: FixedPrecisionValue): FixedPrecision {
     return this.fromRaw(
-      atan2_value(this.value, this.coerce(x).value, this.ctx),
+      atan2_value(this.value, this.coerce(x, "atan2").value, this.ctx),
     );
   }
 
@@ -640,7 +1358,7 @@ export default class FixedPrecision {
         : fraction_value(
             this.value,
             this.ctx.SCALE,
-            FixedPrecision.normalizeTo(maxDen, this.ctx).scale(0, 1).value,
+            FixedPrecision.normalizeTo(maxDen, this.ctx).rescale(0, 1).value,
           );
 
     return [
@@ -653,15 +1371,33 @@ export default class FixedPrecision {
     dp: number = this.ctx.places,
     rm: RoundingMode = this.ctx.roundingMode,
   ): FixedPrecision {
-    return this.fromRaw(round_value(this.value, dp, rm, this.ctx));
+    return this.fromRaw(
+      FixedPrecision.roundWithSignals(this.value, dp, rm, this.ctx, "round"),
+    );
   }
 
   public scale(
     newScale: number,
     rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
+    const instance = this.rescale(newScale, rm);
+    signal_rounded(
+      this.ctx,
+      newScale < this.ctx.places,
+      shifted_by_value(instance.value, this.ctx.places - newScale) !==
+        this.value,
+      "scale",
+      [this.value, newScale],
+    );
+    return instance;
+  }
+
+  private rescale(
+    newScale: number,
+    rm: RoundingMode = this.ctx.roundingMode,
   ): FixedPrecision {
     const nextValue = scale_value(this.value, newScale, rm, this.ctx);
-    const nextCtx = makeContext(newScale, rm);
+    const nextCtx = withPlaces(this.ctx, newScale, rm);
     const instance = new FixedPrecision(0n, nextCtx);
     instance.value = nextValue;
     return instance;
@@ -671,7 +1407,12 @@ export default class FixedPrecision {
     sd: number,
     rm: RoundingMode = this.ctx.roundingMode,
   ): FixedPrecision {
-    return this.fromRaw(precision_value(this.value, sd, rm, this.ctx));
+    const raw = precision_value(this.value, sd, rm, this.ctx);
+    signal_rounded(this.ctx, raw !== this.value, raw !== this.value, "prec", [
+      this.value,
+      sd,
+    ]);
+    return this.fromRaw(raw);
   }
 
   public toJSON(): string {
@@ -679,15 +1420,21 @@ export default class FixedPrecision {
   }
 
   public ceil(): FixedPrecision {
-    return this.round(0, 2);
+    return this.fromRaw(
+      FixedPrecision.roundWithSignals(this.value, 0, 2, this.ctx, "ceil"),
+    );
   }
 
   public floor(): FixedPrecision {
-    return this.round(0, 3);
+    return this.fromRaw(
+      FixedPrecision.roundWithSignals(this.value, 0, 3, this.ctx, "floor"),
+    );
   }
 
   public trunc(): FixedPrecision {
-    return this.round(0, 1);
+    return this.fromRaw(
+      FixedPrecision.roundWithSignals(this.value, 0, 1, this.ctx, "trunc"),
+    );
   }
 
   public shiftedBy(n: number): FixedPrecision {
@@ -762,6 +1509,21 @@ export default class FixedPrecision {
     );
   }
 
+  private static roundWithSignals(
+    rawValue: bigint,
+    dp: number,
+    rm: RoundingMode,
+    ctx: FPContext,
+    operation: string,
+  ): bigint {
+    const rounded = round_value(rawValue, dp, rm, ctx);
+    signal_rounded(ctx, dp < ctx.places, rounded !== rawValue, operation, [
+      rawValue,
+      dp,
+    ]);
+    return rounded;
+  }
+
   private static signNumber(value: number): number {
     if (Number.isNaN(value)) {
       return NaN;
@@ -790,12 +1552,36 @@ export default class FixedPrecision {
     }
   }
 
-  public static PI(): FixedPrecision {
-    return new FixedPrecision("3.14159265358979323846");
+  private static fromConstant(
+    constant: (scale: bigint, rm: RoundingMode) => bigint,
+    operation: string,
+    places?: number,
+  ): FixedPrecision {
+    let ctx = FixedPrecision.defaultContext;
+    if (places !== undefined) {
+      assertPlaces(places, operation);
+      ctx = withPlaces(ctx, places);
+    }
+    return FixedPrecision.fromRawWithContext(
+      constant(ctx.SCALE, ctx.roundingMode),
+      ctx,
+    );
+  }
+
+  public static PI(places?: number): FixedPrecision {
+    return FixedPrecision.fromConstant(pi_value, "PI", places);
+  }
+
+  public static e(places?: number): FixedPrecision {
+    return FixedPrecision.fromConstant(e_value, "e", places);
+  }
+
+  public static LN2(places?: number): FixedPrecision {
+    return FixedPrecision.fromConstant(ln2_value, "LN2", places);
   }
 
-  public static e(): FixedPrecision {
-    return new FixedPrecision("2.71828182845904523536");
+  public static LN10(places?: number): FixedPrecision {
+    return FixedPrecision.fromConstant(ln10_value, "LN10", places);
   }
 
   public static exp(value: FixedPrecisionValue): FixedPrecision {
@@ -833,12 +1619,16 @@ export default class FixedPrecision {
   public static mul(
     left: FixedPrecisionValue,
     right: FixedPrecisionValue,
+    rm?: RoundingMode,
   ): FixedPrecision {
     const ctx = FixedPrecision.resolveContext([left, right]);
     return FixedPrecision.fromRawWithContext(
-      (FixedPrecision.toScaled(left, ctx) *
-        FixedPrecision.toScaled(right, ctx)) /
-        ctx.SCALE,
+      mul_value(
+        FixedPrecision.toScaled(left, ctx),
+        FixedPrecision.toScaled(right, ctx),
+        ctx,
+        rm ?? ctx.roundingMode,
+      ),
       ctx,
     );
   }
@@ -846,11 +1636,16 @@ export default class FixedPrecision {
   public static div(
     left: FixedPrecisionValue,
     right: FixedPrecisionValue,
+    rm?: RoundingMode,
   ): FixedPrecision {
     const ctx = FixedPrecision.resolveContext([left, right]);
     return FixedPrecision.fromRawWithContext(
-      (FixedPrecision.toScaled(left, ctx) * ctx.SCALE) /
+      div_value(
+        FixedPrecision.toScaled(left, ctx),
         FixedPrecision.toScaled(right, ctx),
+        ctx,
+        rm ?? ctx.roundingMode,
+      ),
       ctx,
     );
   }
@@ -861,33 +1656,40 @@ export default class FixedPrecision {
   ): FixedPrecision {
     const ctx = FixedPrecision.resolveContext([left, right]);
     return FixedPrecision.fromRawWithContext(
-      (FixedPrecision.toScaled(left, ctx) * ctx.SCALE) %
+      mod_value(
+        FixedPrecision.toScaled(left, ctx),
         FixedPrecision.toScaled(right, ctx),
+        ctx,
+      ),
       ctx,
     );
   }
 
-  public static pow(value: FixedPrecisionValue, exp: number): FixedPrecision {
+  public static pow(
+    value: FixedPrecisionValue,
+    exp: number,
+    rm?: RoundingMode,
+  ): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      power(rawValue, exp, ctx.SCALE),
+      power(rawValue, exp, ctx, rm ?? ctx.roundingMode),
     );
   }
 
   public static ceil(value: FixedPrecisionValue): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      round_value(rawValue, 0, 2, ctx),
+      FixedPrecision.roundWithSignals(rawValue, 0, 2, ctx, "ceil"),
     );
   }
 
   public static floor(value: FixedPrecisionValue): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      round_value(rawValue, 0, 3, ctx),
+      FixedPrecision.roundWithSignals(rawValue, 0, 3, ctx, "floor"),
     );
   }
 
   public static trunc(value: FixedPrecisionValue): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      round_value(rawValue, 0, 1, ctx),
+      FixedPrecision.roundWithSignals(rawValue, 0, 1, ctx, "trunc"),
     );
   }
 
@@ -897,11 +1699,12 @@ export default class FixedPrecision {
     rm?: RoundingMode,
   ): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      round_value(
+      FixedPrecision.roundWithSignals(
         rawValue,
         dp !== undefined ? dp : ctx.places,
         rm !== undefined ? rm : ctx.roundingMode,
         ctx,
+        "round",
       ),
     );
   }
@@ -946,8 +1749,16 @@ export default class FixedPrecision {
     const raw = FixedPrecision.toScaled(value, ctx);
     const minRaw = FixedPrecision.toScaled(min, ctx);
     const maxRaw = FixedPrecision.toScaled(max, ctx);
+    const operands = [raw, minRaw, maxRaw];
     if (minRaw > maxRaw) {
-      throw new Error("min must be less than or equal to max");
+      throw new DomainError(
+        "min must be less than or equal to max",
+        "clamp",
+        operands.map((operand) => to_string_with_ctx(operand, ctx)),
+      );
+    }
+    if (raw < minRaw || raw > maxRaw) {
+      raise_signal(ctx, "Clamped", "clamp", operands);
     }
     return FixedPrecision.fromRawWithContext(
       raw < minRaw ? minRaw : raw > maxRaw ? maxRaw : raw,
@@ -955,15 +1766,21 @@ export default class FixedPrecision {
     );
   }
 
-  public static square(value: FixedPrecisionValue): FixedPrecision {
+  public static square(
+    value: FixedPrecisionValue,
+    rm?: RoundingMode,
+  ): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      power(rawValue, 2, ctx.SCALE),
+      power(rawValue, 2, ctx, rm ?? ctx.roundingMode),
     );
   }
 
-  public static cube(value: FixedPrecisionValue): FixedPrecision {
+  public static cube(
+    value: FixedPrecisionValue,
+    rm?: RoundingMode,
+  ): FixedPrecision {
     return FixedPrecision.fromContextValue(value, (rawValue, ctx) =>
-      power(rawValue, 3, ctx.SCALE),
+      power(rawValue, 3, ctx, rm ?? ctx.roundingMode),
     );
   }
 
@@ -1090,12 +1907,12 @@ export default class FixedPrecision {
     return FixedPrecision.fromContextValue(value, acoth_value);
   }
 
-  public static phi(): FixedPrecision {
-    return new FixedPrecision("1.61803398874989484820");
+  public static phi(places?: number): FixedPrecision {
+    return FixedPrecision.fromConstant(phi_value, "phi", places);
   }
 
-  public static sqrt2(): FixedPrecision {
-    return new FixedPrecision("1.41421356237309504880");
+  public static sqrt2(places?: number): FixedPrecision {
+    return FixedPrecision.fromConstant(sqrt2_value, "sqrt2", places);
   }
 
   public static random(decimalPlaces?: number): FixedPrecision {
@@ -1107,7 +1924,7 @@ export default class FixedPrecision {
 
     const instance = new FixedPrecision(
       0n,
-      makeContext(dec, FixedPrecision.defaultContext.roundingMode),
+      withPlaces(FixedPrecision.defaultContext, dec),
     );
     instance.value = rand;
     return instance;
@@ -1133,7 +1950,7 @@ export default class FixedPrecision {
       ) {
         return v;
       }
-      return v.scale(ctx.places, ctx.roundingMode);
+      return v.rescale(ctx.places, ctx.roundingMode);
     } else {
       return new FixedPrecision(v, ctx);
     }
@@ -1150,6 +1967,10 @@ export default class FixedPrecision {
     return FixedPrecision.fromRawWithContext(result, ctx);
   }
 
+  public static matrix(rows: FixedPrecisionValue[][]): Matrix {
+    return new Matrix(rows, FixedPrecision.resolveContext(rows.flat()));
+  }
+
   public static cross(
     a: FixedPrecisionValue[],
     b: FixedPrecisionValue[],
@@ -1205,6 +2026,309 @@ export default class FixedPrecision {
     return FixedPrecision.fromRawWithContext(total, ctx);
   }
 
+  private static statistic(
+    values: FixedPrecisionValue[],
+    compute: (raw: bigint[], ctx: FPContext) => bigint,
+  ): FixedPrecision {
+    const ctx = FixedPrecision.resolveContext(values);
+    return FixedPrecision.fromRawWithContext(
+      compute(
+        values.map((value) => FixedPrecision.normalizeTo(value, ctx).value),
+        ctx,
+      ),
+      ctx,
+    );
+  }
+
+  public static mean(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw, ctx) =>
+      mean_value(raw, ctx, "mean"),
+    );
+  }
+
+  public static weightedMean(
+    values: FixedPrecisionValue[],
+    weights: FixedPrecisionValue[],
+  ): FixedPrecision {
+    const ctx = FixedPrecision.resolveContext(values);
+    return FixedPrecision.statistic(values, (raw) =>
+      weighted_mean_value(
+        raw,
+        weights.map((weight) => FixedPrecision.normalizeTo(weight, ctx).value),
+        ctx,
+        "weightedMean",
+      ),
+    );
+  }
+
+  public static median(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw, ctx) =>
+      median_value(raw, ctx, "median"),
+    );
+  }
+
+  public static mode(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision[] {
+    const values = collectValues(val, vals);
+    const ctx = FixedPrecision.resolveContext(values);
+    return mode_values(
+      values.map((value) => FixedPrecision.normalizeTo(value, ctx).value),
+      "mode",
+    ).map((raw) => FixedPrecision.fromRawWithContext(raw, ctx));
+  }
+
+  public static range(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw) =>
+      range_value(raw, "range"),
+    );
+  }
+
+  public static variance(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw, ctx) =>
+      variance_value(raw, false, ctx, "variance"),
+    );
+  }
+
+  public static sampleVariance(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw, ctx) =>
+      variance_value(raw, true, ctx, "sampleVariance"),
+    );
+  }
+
+  public static stddev(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw, ctx) =>
+      stddev_value(raw, false, ctx, "stddev"),
+    );
+  }
+
+  public static sampleStddev(
+    val: FixedPrecisionValue | FixedPrecisionValue[],
+    ...vals: FixedPrecisionValue[]
+  ): FixedPrecision {
+    return FixedPrecision.statistic(collectValues(val, vals), (raw, ctx) =>
+      stddev_value(raw, true, ctx, "sampleStddev"),
+    );
+  }
+
+  public static quantile(
+    values: FixedPrecisionValue[],
+    q: RateValue,
+    method: QuantileMethod = "linear",
+  ): FixedPrecision {
+    const fraction = quantile_fraction(q, false, "quantile");
+    return FixedPrecision.statistic(values, (raw, ctx) =>
+      quantile_value(raw, fraction, method, ctx, "quantile"),
+    );
+  }
+
+  public static percentile(
+    values: FixedPrecisionValue[],
+    p: string | number | FixedPrecision,
+    method: QuantileMethod = "linear",
+  ): FixedPrecision {
+    const fraction = quantile_fraction(p, true, "percentile");
+    return FixedPrecision.statistic(values, (raw, ctx) =>
+      quantile_value(raw, fraction, method, ctx, "percentile"),
+    );
+  }
+
+  private static pairedStatistic<T>(
+    xs: FixedPrecisionValue[],
+    ys: FixedPrecisionValue[],
+    compute: (rawX: bigint[], rawY: bigint[], ctx: FPContext) => T,
+  ): T {
+    const ctx = FixedPrecision.resolveContext([...xs, ...ys]);
+    return compute(
+      xs.map((x) => FixedPrecision.normalizeTo(x, ctx).value),
+      ys.map((y) => FixedPrecision.normalizeTo(y, ctx).value),
+      ctx,
+    );
+  }
+
+  public static covariance(
+    xs: FixedPrecisionValue[],
+    ys: FixedPrecisionValue[],
+  ): FixedPrecision {
+    return FixedPrecision.pairedStatistic(xs, ys, (rawX, rawY, ctx) =>
+      FixedPrecision.fromRawWithContext(
+        covariance_value(rawX, rawY, false, ctx, "covariance"),
+        ctx,
+      ),
+    );
+  }
+
+  public static sampleCovariance(
+    xs: FixedPrecisionValue[],
+    ys: FixedPrecisionValue[],
+  ): FixedPrecision {
+    return FixedPrecision.pairedStatistic(xs, ys, (rawX, rawY, ctx) =>
+      FixedPrecision.fromRawWithContext(
+        covariance_value(rawX, rawY, true, ctx, "sampleCovariance"),
+        ctx,
+      ),
+    );
+  }
+
+  public static pearsonCorrelation(
+    xs: FixedPrecisionValue[],
+    ys: FixedPrecisionValue[],
+  ): FixedPrecision {
+    return FixedPrecision.pairedStatistic(xs, ys, (rawX, rawY, ctx) =>
+      FixedPrecision.fromRawWithContext(
+        correlation_value(rawX, rawY, ctx, "pearsonCorrelation"),
+        ctx,
+      ),
+    );
+  }
+
+  public static linearRegression(
+    xs: FixedPrecisionValue[],
+    ys: FixedPrecisionValue[],
+  ): LinearRegression {
+    return FixedPrecision.pairedStatistic(xs, ys, (rawX, rawY, ctx) => {
+      const model = linear_regression(rawX, rawY, ctx, "linearRegression");
+      return {
+        slope: FixedPrecision.fromRawWithContext(model.slope, ctx),
+        intercept: FixedPrecision.fromRawWithContext(model.intercept, ctx),
+        rSquared: FixedPrecision.fromRawWithContext(model.rSquared, ctx),
+        predict: (x: FixedPrecisionValue) =>
+          FixedPrecision.fromRawWithContext(
+            model.predict(FixedPrecision.normalizeTo(x, ctx).value),
+            ctx,
+          ),
+      };
+    });
+  }
+
+  private static series(
+    values: Iterable<FixedPrecisionValue>,
+    compute: (raw: bigint[], ctx: FPContext) => bigint[],
+  ): FixedPrecision[] {
+    const list = Array.from(values);
+    const ctx = FixedPrecision.resolveContext(list);
+    return compute(
+      list.map((value) => FixedPrecision.normalizeTo(value, ctx).value),
+      ctx,
+    ).map((raw) => FixedPrecision.fromRawWithContext(raw, ctx));
+  }
+
+  public static sma(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw, ctx) =>
+      sma_values(raw, window, ctx, "sma"),
+    );
+  }
+
+  public static ema(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw, ctx) =>
+      ema_values(raw, window, ctx, "ema"),
+    );
+  }
+
+  public static wma(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw, ctx) =>
+      wma_values(raw, window, ctx, "wma"),
+    );
+  }
+
+  public static rollingSum(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw) =>
+      rolling_sum_values(raw, window, "rollingSum"),
+    );
+  }
+
+  public static rollingMin(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw) =>
+      rolling_extreme_values(
+        raw,
+        window,
+        (candidate, kept) => candidate <= kept,
+        "rollingMin",
+      ),
+    );
+  }
+
+  public static rollingMax(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw) =>
+      rolling_extreme_values(
+        raw,
+        window,
+        (candidate, kept) => candidate >= kept,
+        "rollingMax",
+      ),
+    );
+  }
+
+  public static rollingStddev(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw, ctx) =>
+      rolling_stddev_values(raw, window, false, ctx, "rollingStddev"),
+    );
+  }
+
+  public static rollingSampleStddev(
+    values: Iterable<FixedPrecisionValue>,
+    window: number,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw, ctx) =>
+      rolling_stddev_values(raw, window, true, ctx, "rollingSampleStddev"),
+    );
+  }
+
+  public static cumulativeSum(
+    values: Iterable<FixedPrecisionValue>,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw) => cumulative_sum_values(raw));
+  }
+
+  public static percentChange(
+    values: Iterable<FixedPrecisionValue>,
+    periods = 1,
+  ): FixedPrecision[] {
+    return FixedPrecision.series(values, (raw, ctx) =>
+      percent_change_values(raw, periods, ctx, "percentChange"),
+    );
+  }
+
   public static hypot(
     val?: FixedPrecisionValue | FixedPrecisionValue[],
     ...vals: FixedPrecisionValue[]
@@ -1266,9 +2390,272 @@ export default class FixedPrecision {
     );
   }
 
+  private static fromFinanceWork(
+    values: FixedPrecisionValue[],
+    compute: (
+      lift: (value: FixedPrecisionValue) => bigint,
+      work: Finance_Work,
+    ) => bigint,
+  ): FixedPrecision {
+    const ctx = FixedPrecision.resolveContext(values);
+    const work = get_finance_work(ctx);
+    const lift = (value: FixedPrecisionValue) =>
+      FixedPrecision.toWorkScaled(value, work);
+    return FixedPrecision.fromRawWithContext(
+      from_finance_work(compute(lift, work), ctx, work),
+      ctx,
+    );
+  }
+
+  private static toWorkScaled(
+    value: FixedPrecisionValue,
+    work: Finance_Work,
+  ): bigint {
+    return typeof value === "bigint"
+      ? value * work.guard
+      : FixedPrecision.toScaled(value, work.ctx);
+  }
+
+  public static amortize(options: AmortizationOptions): AmortizationRow[] {
+    const {
+      principal,
+      annualRate,
+      term,
+      frequency = 12,
+      interestOnlyPeriods = 0,
+      extraPayments = 0,
+    } = options;
+    if (!Number.isInteger(frequency) || frequency <= 0) {
+      throw new DomainError(
+        "Frequency must be a positive integer",
+        "amortize",
+        [frequency],
+      );
+    }
+    const ctx = FixedPrecision.resolveContext([principal, annualRate]);
+    const work = get_finance_work(ctx);
+    let extraFor: (period: number) => bigint;
+    if (
+      typeof extraPayments === "object" &&
+      !(extraPayments instanceof FixedPrecision)
+    ) {
+      extraFor = (period) => {
+        const extra = extraPayments[period];
+        return extra === undefined
+          ? 0n
+          : FixedPrecision.normalizeTo(extra, ctx).value;
+      };
+    } else {
+      const everyPeriod = FixedPrecision.normalizeTo(extraPayments, ctx).value;
+      extraFor = () => everyPeriod;
+    }
+
+    const rows = amortization_schedule(
+      FixedPrecision.normalizeTo(principal, ctx).value,
+      FixedPrecision.toWorkScaled(annualRate, work) / BigInt(frequency),
+      term * frequency,
+      interestOnlyPeriods,
+      extraFor,
+      ctx,
+      work,
+    );
+    return rows.map((row, index) => ({
+      period: index + 1,
+      payment: FixedPrecision.fromRawWithContext(row.payment, ctx),
+      interest: FixedPrecision.fromRawWithContext(row.interest, ctx),
+      principal: FixedPrecision.fromRawWithContext(row.principal, ctx),
+      balance: FixedPrecision.fromRawWithContext(row.balance, ctx),
+    }));
+  }
+
+  public static yearFraction(
+    start: string | Date,
+    end: string | Date,
+    convention: DayCountConvention,
+  ): Ratio {
+    return year_fraction(start, end, convention, "yearFraction");
+  }
+
+  public static accruedInterest(
+    principal: FixedPrecisionValue,
+    annualRate: string | number | FixedPrecision,
+    start: string | Date,
+    end: string | Date,
+    convention: DayCountConvention,
+  ): FixedPrecision {
+    const ctx = FixedPrecision.resolveContext([principal]);
+    const amount = FixedPrecision.normalizeTo(principal, ctx);
+    const { coefficient, scale } = exact_factor(annualRate, "accruedInterest");
+    const { numerator, denominator } = year_fraction(
+      start,
+      end,
+      convention,
+      "accruedInterest",
+    );
+    return FixedPrecision.fromRawWithContext(
+      divide_with_signals(
+        amount.value * coefficient * numerator,
+        powerOfTen(scale) * denominator,
+        ctx,
+        ctx.roundingMode,
+        "accruedInterest",
+        [amount.toString(), annualRate.toString()],
+      ),
+      ctx,
+    );
+  }
+
+  public static npv(
+    rate: FixedPrecisionValue,
+    cashFlows: FixedPrecisionValue[],
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork([rate, ...cashFlows], (lift, work) =>
+      npv_value(lift(rate), cashFlows.map(lift), work),
+    );
+  }
+
+  public static irr(
+    cashFlows: FixedPrecisionValue[],
+    guess: FixedPrecisionValue = "0.1",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork([...cashFlows, guess], (lift, work) =>
+      irr_value(cashFlows.map(lift), lift(guess), work),
+    );
+  }
+
+  public static xirr(
+    cashFlows: CashFlow[],
+    guess: FixedPrecisionValue = "0.1",
+  ): FixedPrecision {
+    const amounts = cashFlows.map((flow) => flow.amount);
+    const days = cashFlows.map((flow) => day_number(flow.date, "xirr"));
+    return FixedPrecision.fromFinanceWork([...amounts, guess], (lift, work) =>
+      xirr_value(amounts.map(lift), days, lift(guess), work),
+    );
+  }
+
+  public static pmt(
+    rate: FixedPrecisionValue,
+    nper: FixedPrecisionValue,
+    pv: FixedPrecisionValue,
+    fv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork([rate, nper, pv, fv], (lift, work) =>
+      pmt_value(lift(rate), lift(nper), lift(pv), lift(fv), when, work),
+    );
+  }
+
+  public static ipmt(
+    rate: FixedPrecisionValue,
+    per: FixedPrecisionValue,
+    nper: FixedPrecisionValue,
+    pv: FixedPrecisionValue,
+    fv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork(
+      [rate, per, nper, pv, fv],
+      (lift, work) =>
+        ipmt_value(
+          lift(rate),
+          lift(per),
+          lift(nper),
+          lift(pv),
+          lift(fv),
+          when,
+          work,
+        ),
+    );
+  }
+
+  public static ppmt(
+    rate: FixedPrecisionValue,
+    per: FixedPrecisionValue,
+    nper: FixedPrecisionValue,
+    pv: FixedPrecisionValue,
+    fv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork(
+      [rate, per, nper, pv, fv],
+      (lift, work) =>
+        ppmt_value(
+          lift(rate),
+          lift(per),
+          lift(nper),
+          lift(pv),
+          lift(fv),
+          when,
+          work,
+        ),
+    );
+  }
+
+  public static fv(
+    rate: FixedPrecisionValue,
+    nper: FixedPrecisionValue,
+    pmt: FixedPrecisionValue,
+    pv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork([rate, nper, pmt, pv], (lift, work) =>
+      fv_value(lift(rate), lift(nper), lift(pmt), lift(pv), when, work),
+    );
+  }
+
+  public static pv(
+    rate: FixedPrecisionValue,
+    nper: FixedPrecisionValue,
+    pmt: FixedPrecisionValue,
+    fv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork([rate, nper, pmt, fv], (lift, work) =>
+      pv_value(lift(rate), lift(nper), lift(pmt), lift(fv), when, work),
+    );
+  }
+
+  public static rate(
+    nper: FixedPrecisionValue,
+    pmt: FixedPrecisionValue,
+    pv: FixedPrecisionValue,
+    fv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+    guess: FixedPrecisionValue = "0.1",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork(
+      [nper, pmt, pv, fv, guess],
+      (lift, work) =>
+        rate_value(
+          lift(nper),
+          lift(pmt),
+          lift(pv),
+          lift(fv),
+          when,
+          lift(guess),
+          work,
+        ),
+    );
+  }
+
+  public static nper(
+    rate: FixedPrecisionValue,
+    pmt: FixedPrecisionValue,
+    pv: FixedPrecisionValue,
+    fv: FixedPrecisionValue = 0,
+    when: PaymentTiming = "end",
+  ): FixedPrecision {
+    return FixedPrecision.fromFinanceWork([rate, pmt, pv, fv], (lift, work) =>
+      nper_value(lift(rate), lift(pmt), lift(pv), lift(fv), when, work),
+    );
+  }
+
   public toExponential(dp?: number, rm?: RoundingMode): string {
     const effDp = dp ?? this.ctx.places;
-    const rounded = this.round(effDp, rm);
+    const rounded = this.fromRaw(
+      round_value(this.value, effDp, rm ?? this.ctx.roundingMode, this.ctx),
+    );
     const [int = "", frac = ""] = rounded.toString().split(".");
     const absInt = int.replace(/^-/, "");
     const exp =
@@ -1324,7 +2711,40 @@ export default class FixedPrecision {
   }
 
   public toFixed(places = 0, rm?: RoundingMode): string {
-    return this.scale(places, rm).toString(false);
+    return this.rescale(places, rm).toString(false);
+  }
+
+  private cashRoundedValue(
+    ruleOrCurrency: string | CashRoundingRule | undefined,
+    operation: string,
+  ): bigint {
+    if (ruleOrCurrency === undefined) return this.value;
+    const { step, roundingMode } = cash_rounding_step(
+      ruleOrCurrency,
+      this.ctx,
+      operation,
+    );
+    return round_to_scale_value(this.value, step, roundingMode) * step;
+  }
+
+  public toFormat(options: FormatOptions = {}): string {
+    return format_to_parts_with_ctx(
+      this.cashRoundedValue(options.cashRounding, "toFormat"),
+      this.ctx,
+      options,
+      "toFormat",
+    )
+      .map((part) => part.value)
+      .join("");
+  }
+
+  public formatToParts(options: FormatOptions = {}): FormatPart[] {
+    return format_to_parts_with_ctx(
+      this.cashRoundedValue(options.cashRounding, "formatToParts"),
+      this.ctx,
+      options,
+      "formatToParts",
+    );
   }
 
   public toBinary(sd?: number, rm?: RoundingMode): string {
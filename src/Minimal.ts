@@ -1,11 +1,21 @@
 import {
+  div_value,
+  mod_value,
+  mul_value,
   power,
   precision_value,
   round_value,
   scale_value,
   sqrt_value,
 } from "./arithmetic/index";
-import { makeContext } from "./core/context";
+import { assertPlaces, assertRoundingMode, makeContext } from "./core/context";
+import { DomainError, ParseError, PrecisionMismatchError } from "./core/errors";
+import { assertTraps, SIGNALS, signal_division } from "./core/signals";
+import type {
+  ExcessDigitsPolicy,
+  NumberConversion,
+  Signal,
+} from "./FixedPrecision";
 import { from_number_with_ctx, to_number_with_ctx } from "./numeric/index";
 import { from_string_with_ctx, to_string_with_ctx } from "./string/index";
 import { precisionPowerOfTen } from "./utils";
@@ -19,24 +29,17 @@ type FPContext = {
   roundingMode: RoundingMode;
   SCALE: bigint;
   SCALENUMBER: number;
+  traps: ReadonlySet<Signal>;
+  flags: Set<Signal>;
+  allowBareDecimalPoint: boolean;
+  onExcessDigits: ExcessDigitsPolicy;
+  numberConversion: NumberConversion;
 };
 
 export interface FixedPrecisionConfig {
   places: number;
   roundingMode?: RoundingMode;
-}
-function assertPlaces(places: number, message: string): void {
-  if (!Number.isInteger(places) || places < 0 || places > 20) {
-    throw new Error(message);
-  }
-}
-
-function assertRoundingMode(rm: number): asserts rm is RoundingMode {
-  if (!Number.isInteger(rm) || rm < 0 || rm > 8) {
-    throw new Error(
-      "Invalid rounding mode. Must be 0, 1, 2, 3, 4, 5, 6, 7 or 8",
-    );
-  }
+  traps?: Signal[];
 }
 
 export default class FixedPrecision {
@@ -49,24 +52,57 @@ export default class FixedPrecision {
     const roundingMode =
       config.roundingMode ?? FixedPrecision.defaultContext.roundingMode;
 
-    assertPlaces(places, "Decimal places must be an integer between 0 and 20");
-    assertRoundingMode(roundingMode);
-    FixedPrecision.defaultContext = makeContext(places, roundingMode);
+    assertPlaces(places, "configure");
+    assertRoundingMode(roundingMode, "configure");
+    FixedPrecision.defaultContext = FixedPrecision.withTraps(
+      makeContext(places, roundingMode),
+      config.traps ?? [...FixedPrecision.defaultContext.traps],
+      "configure",
+    );
   }
 
   public static create(
     config: FixedPrecisionConfig,
   ): (val: FixedPrecisionValue) => FixedPrecision {
-    assertPlaces(
-      config.places,
-      "Decimal places must be an integer between 0 and 20",
-    );
+    assertPlaces(config.places, "create");
     const roundingMode = config.roundingMode ?? 4;
-    assertRoundingMode(roundingMode);
-    const ctx = makeContext(config.places, roundingMode);
+    assertRoundingMode(roundingMode, "create");
+    const ctx = FixedPrecision.withTraps(
+      makeContext(config.places, roundingMode),
+      config.traps,
+      "create",
+    );
     return (value: FixedPrecisionValue) => new FixedPrecision(value, ctx);
   }
 
+  private static withTraps(
+    ctx: FPContext,
+    traps: Signal[] | undefined,
+    operation: string,
+  ): FPContext {
+    if (traps === undefined) return ctx;
+    assertTraps(traps, operation);
+    return { ...ctx, traps: new Set(traps) };
+  }
+
+  public static flags(): Signal[] {
+    return SIGNALS.filter((signal) =>
+      FixedPrecision.defaultContext.flags.has(signal),
+    );
+  }
+
+  public static clearFlags(): void {
+    FixedPrecision.defaultContext.flags.clear();
+  }
+
+  public flags(): Signal[] {
+    return SIGNALS.filter((signal) => this.ctx.flags.has(signal));
+  }
+
+  public clearFlags(): void {
+    this.ctx.flags.clear();
+  }
+
   public constructor(value: FixedPrecisionValue, ctx?: FPContext) {
     this.ctx = ctx ?? FixedPrecision.defaultContext;
     this.value = FixedPrecision.toScaled(value, this.ctx);
@@ -83,17 +119,26 @@ export default class FixedPrecision {
     if (typeof value === "bigint") return value;
     if (typeof value === "number") return from_number_with_ctx(value, ctx);
     if (typeof value === "string") return from_string_with_ctx(value, ctx);
-    throw new Error(`Invalid value type: ${typeof value}`);
+    throw new ParseError(`Invalid value type: ${typeof value}`, "parse", [
+      value,
+    ]);
   }
 
   private toScaledValue(value: FixedPrecisionValue): bigint {
     return FixedPrecision.toScaled(value, this.ctx);
   }
 
-  private coerce(value: FixedPrecisionValue): FixedPrecision {
+  private coerce(
+    value: FixedPrecisionValue,
+    operation: string,
+  ): FixedPrecision {
     if (value instanceof FixedPrecision) {
       if (this.ctx.places !== value.ctx.places) {
-        throw new Error("Cannot operate on different precisions");
+        throw new PrecisionMismatchError(
+          "Cannot operate on different precisions",
+          operation,
+          [this.toString(), value.toString()],
+        );
       }
       return value;
     }
@@ -150,7 +195,10 @@ export default class FixedPrecision {
       : [value, ...values];
     const first = items[0];
     if (first === undefined) {
-      throw new Error("FixedPrecision.min requires at least one argument");
+      throw new DomainError(
+        "FixedPrecision.min requires at least one argument",
+        "min",
+      );
     }
 
     const ctx = FixedPrecision.resolveContext(items);
@@ -171,7 +219,10 @@ export default class FixedPrecision {
       : [value, ...values];
     const first = items[0];
     if (first === undefined) {
-      throw new Error("FixedPrecision.max requires at least one argument");
+      throw new DomainError(
+        "FixedPrecision.max requires at least one argument",
+        "max",
+      );
     }
 
     const ctx = FixedPrecision.resolveContext(items);
@@ -208,28 +259,28 @@ export default class FixedPrecision {
   }
 
   public cmp(other: FixedPrecisionValue): Comparison {
-    const value = this.coerce(other).value;
+    const value = this.coerce(other, "cmp").value;
     return this.value < value ? -1 : this.value > value ? 1 : 0;
   }
 
   public eq(other: FixedPrecisionValue): boolean {
-    return this.value === this.coerce(other).value;
+    return this.value === this.coerce(other, "eq").value;
   }
 
   public gt(other: FixedPrecisionValue): boolean {
-    return this.value > this.coerce(other).value;
+    return this.value > this.coerce(other, "gt").value;
   }
 
   public gte(other: FixedPrecisionValue): boolean {
-    return this.value >= this.coerce(other).value;
+    return this.value >= this.coerce(other, "gte").value;
   }
 
   public lt(other: FixedPrecisionValue): boolean {
-    return this.value < this.coerce(other).value;
+    return this.value < this.coerce(other, "lt").value;
   }
 
   public lte(other: FixedPrecisionValue): boolean {
-    return this.value <= this.coerce(other).value;
+    return this.value <= this.coerce(other, "lte").value;
   }
 
   public isInteger(): boolean {
@@ -249,7 +300,7 @@ export default class FixedPrecision {
   }
 
   public add(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value + this.coerce(other).value);
+    return this.fromRaw(this.value + this.coerce(other, "add").value);
   }
 
   public plus(other: FixedPrecisionValue): FixedPrecision {
@@ -257,16 +308,19 @@ export default class FixedPrecision {
   }
 
   public sub(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value - this.coerce(other).value);
+    return this.fromRaw(this.value - this.coerce(other, "sub").value);
   }
 
   public minus(other: FixedPrecisionValue): FixedPrecision {
     return this.fromRaw(this.value - this.toScaledValue(other));
   }
 
-  public mul(other: FixedPrecisionValue): FixedPrecision {
+  public mul(
+    other: FixedPrecisionValue,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
     return this.fromRaw(
-      (this.value * this.coerce(other).value) / this.ctx.SCALE,
+      mul_value(this.value, this.coerce(other, "mul").value, this.ctx, rm),
     );
   }
 
@@ -274,36 +328,73 @@ export default class FixedPrecision {
     return this.fromRaw(this.value * this.toScaledValue(other));
   }
 
-  public div(other: FixedPrecisionValue): FixedPrecision {
+  public div(
+    other: FixedPrecisionValue,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
     return this.fromRaw(
-      (this.value * this.ctx.SCALE) / this.coerce(other).value,
+      div_value(this.value, this.coerce(other, "div").value, this.ctx, rm),
     );
   }
 
   public idiv(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(
-      (this.value / this.coerce(other).value) * this.ctx.SCALE,
-    );
+    const divisor = this.coerce(other, "idiv").value;
+    if (
+      signal_division(this.ctx, this.value, divisor, "idiv", [
+        this.value,
+        divisor,
+      ])
+    ) {
+      return this.fromRaw(0n);
+    }
+    return this.fromRaw((this.value / divisor) * this.ctx.SCALE);
   }
 
   public ratio(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value / this.toScaledValue(other));
+    const divisor = this.toScaledValue(other);
+    if (
+      signal_division(this.ctx, this.value, divisor, "ratio", [
+        this.value,
+        divisor,
+      ])
+    ) {
+      return this.fromRaw(0n);
+    }
+    return this.fromRaw(this.value / divisor);
   }
 
   public mod(other: FixedPrecisionValue): FixedPrecision {
     return this.fromRaw(
-      (this.value * this.ctx.SCALE) % this.coerce(other).value,
+      mod_value(this.value, this.coerce(other, "mod").value, this.ctx),
     );
   }
 
   public rem(other: FixedPrecisionValue): FixedPrecision {
-    return this.fromRaw(this.value % this.toScaledValue(other));
+    const divisor = this.toScaledValue(other);
+    if (
+      signal_division(this.ctx, this.value, divisor, "rem", [
+        this.value,
+        divisor,
+      ])
+    ) {
+      return this.fromRaw(0n);
+    }
+    return this.fromRaw(this.value % divisor);
   }
+
   public divmod(other: FixedPrecisionValue): {
     quotient: FixedPrecision;
     remainder: FixedPrecision;
   } {
-    const coerced = this.coerce(other);
+    const coerced = this.coerce(other, "divmod");
+    if (
+      signal_division(this.ctx, this.value, coerced.value, "divmod", [
+        this.value,
+        coerced.value,
+      ])
+    ) {
+      return { quotient: this.fromRaw(0n), remainder: this.fromRaw(0n) };
+    }
     const quotient = this.fromRaw(
       (this.value * this.ctx.SCALE) / coerced.value,
     );
@@ -320,7 +411,15 @@ export default class FixedPrecision {
     quotient: FixedPrecision;
     remainder: FixedPrecision;
   } {
-    const coerced = this.coerce(other);
+    const coerced = this.coerce(other, "idivmod");
+    if (
+      signal_division(this.ctx, this.value, coerced.value, "idivmod", [
+        this.value,
+        coerced.value,
+      ])
+    ) {
+      return { quotient: this.fromRaw(0n), remainder: this.fromRaw(0n) };
+    }
     const quotient = this.fromRaw(
       (this.value / coerced.value) * this.ctx.SCALE,
     );
@@ -342,12 +441,15 @@ export default class FixedPrecision {
     return this.fromRaw(-this.value);
   }
 
-  public pow(exp: number): FixedPrecision {
-    return this.fromRaw(power(this.value, exp, this.ctx.SCALE));
+  public pow(
+    exp: number,
+    rm: RoundingMode = this.ctx.roundingMode,
+  ): FixedPrecision {
+    return this.fromRaw(power(this.value, exp, this.ctx, rm));
   }
 
-  public square(): FixedPrecision {
-    return this.mul(this);
+  public square(rm: RoundingMode = this.ctx.roundingMode): FixedPrecision {
+    return this.mul(this, rm);
   }
 
   public sqrt(): FixedPrecision {
@@ -419,7 +521,12 @@ export default class FixedPrecision {
   }
 
   public toPrecision(sd: number, rm?: RoundingMode): string {
-    if (sd >= 1e6) throw new Error("Invalid precision");
+    if (sd >= 1e6) {
+      throw new DomainError("Invalid precision", "toPrecision", [
+        this.toString(),
+        sd,
+      ]);
+    }
     if (this.value === 0n) return "0";
 
     const raw = precision_value(
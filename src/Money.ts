@@ -0,0 +1,266 @@
+import { divide_with_signals } from "./arithmetic";
+import { exact_factor } from "./construction/exact_factor";
+import { FactoryContext, withPlaces } from "./core/context";
+import { CurrencyMismatchError } from "./core/errors";
+import { signal_division } from "./core/signals";
+import {
+  currency_minor_units,
+  find_cash_rounding,
+  format_money,
+  register_cash_rounding,
+} from "./currency";
+import FixedPrecision, {
+  type AllocationStrategy,
+  type CashRoundingRule,
+  type Comparison,
+  type FixedPrecisionConfig,
+  type FixedPrecisionValue,
+  type FormatOptions,
+  type FPContext,
+  type RateValue,
+} from "./FixedPrecision";
+import { powerOfTen } from "./utils";
+
+export type MoneyConfig = Omit<FixedPrecisionConfig, "places">;
+
+export type MoneyFactory = (
+  amount: FixedPrecisionValue,
+  currency: string,
+) => Money;
+
+export type MoneyFactor = RateValue;
+
+export type CurrencyDisplay = "symbol" | "narrowSymbol" | "code" | "name";
+
+export interface MoneyFormatOptions
+  extends Omit<FormatOptions, "cashRounding"> {
+  /**
+   * How the currency is shown, as in Intl.NumberFormat
+   * @default "symbol"
+   */
+  currencyDisplay?: CurrencyDisplay;
+
+  /**
+   * Apply the currency's registered cash rounding rule, if it has one
+   * @default true
+   */
+  cashRounding?: boolean;
+}
+
+export interface MoneySettleOptions {
+  /**
+   * Apply the currency's registered cash rounding rule, if it has one
+   * @default true
+   */
+  cashRounding?: boolean;
+}
+
+export default class Money {
+  public readonly amount: FixedPrecision;
+  public readonly currency: string;
+  private readonly ctx: FPContext;
+
+  private static defaultFactory: MoneyFactory | undefined;
+
+  private constructor(
+    amount: FixedPrecision,
+    currency: string,
+    ctx: FPContext,
+  ) {
+    this.amount = amount;
+    this.currency = currency;
+    this.ctx = ctx;
+  }
+
+  public static create(config: MoneyConfig = {}): MoneyFactory {
+    const base = FactoryContext({ ...config, places: 0 });
+    return (amount: FixedPrecisionValue, currency: string) => {
+      const code = currency.toUpperCase();
+      const ctx = withPlaces(base, currency_minor_units(code, "money"));
+      return new Money(new FixedPrecision(amount, ctx), code, ctx);
+    };
+  }
+
+  public static of(amount: FixedPrecisionValue, currency: string): Money {
+    Money.defaultFactory ??= Money.create();
+    return Money.defaultFactory(amount, currency);
+  }
+
+  public static minorUnits(currency: string): number {
+    return currency_minor_units(currency.toUpperCase(), "minorUnits");
+  }
+
+  public static registerCashRounding(
+    currency: string,
+    rule: CashRoundingRule | null,
+  ): void {
+    register_cash_rounding(currency, rule, "registerCashRounding");
+  }
+
+  public static cashRoundingRule(
+    currency: string,
+  ): CashRoundingRule | undefined {
+    const rule = find_cash_rounding(currency);
+    return rule && { ...rule };
+  }
+
+  public static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  private with(amount: FixedPrecision): Money {
+    return new Money(amount, this.currency, this.ctx);
+  }
+
+  private withRaw(raw: bigint): Money {
+    return this.with(new FixedPrecision(raw, this.ctx));
+  }
+
+  private assertCurrency(other: Money, operation: string): void {
+    if (other.currency !== this.currency) {
+      throw new CurrencyMismatchError(
+        "Cannot operate on different currencies",
+        operation,
+        [this.toString(), other.toString()],
+      );
+    }
+  }
+
+  public minorUnits(): number {
+    return this.ctx.places;
+  }
+
+  public toMinor(): bigint {
+    return this.amount.raw();
+  }
+
+  public add(other: Money): Money {
+    this.assertCurrency(other, "add");
+    return this.with(this.amount.add(other.amount));
+  }
+
+  public sub(other: Money): Money {
+    this.assertCurrency(other, "sub");
+    return this.with(this.amount.sub(other.amount));
+  }
+
+  public mul(factor: MoneyFactor): Money {
+    const { coefficient, scale } = exact_factor(factor, "mul");
+    const raw = this.amount.raw();
+    return this.withRaw(
+      divide_with_signals(
+        raw * coefficient,
+        powerOfTen(scale),
+        this.ctx,
+        this.ctx.roundingMode,
+        "mul",
+        [raw, factor.toString()],
+      ),
+    );
+  }
+
+  public div(factor: MoneyFactor): Money {
+    const { coefficient, scale } = exact_factor(factor, "div");
+    const raw = this.amount.raw();
+    const operands = [raw, factor.toString()];
+    if (signal_division(this.ctx, raw, coefficient, "div", operands)) {
+      return this.withRaw(0n);
+    }
+    return this.withRaw(
+      divide_with_signals(
+        raw * powerOfTen(scale),
+        coefficient,
+        this.ctx,
+        this.ctx.roundingMode,
+        "div",
+        operands,
+      ),
+    );
+  }
+
+  public allocate(
+    ratios: MoneyFactor[],
+    strategy?: AllocationStrategy,
+  ): Money[] {
+    return this.amount
+      .allocate(ratios, strategy)
+      .map((part) => this.with(part));
+  }
+
+  public split(parts: number, strategy?: AllocationStrategy): Money[] {
+    return this.amount.split(parts, strategy).map((part) => this.with(part));
+  }
+
+  public cashRound(): Money {
+    const rule = find_cash_rounding(this.currency);
+    return rule ? this.with(this.amount.cashRound(rule)) : this;
+  }
+
+  public settle(options: MoneySettleOptions = {}): Money {
+    return options.cashRounding === false ? this : this.cashRound();
+  }
+
+  public neg(): Money {
+    return this.with(this.amount.neg());
+  }
+
+  public abs(): Money {
+    return this.with(this.amount.abs());
+  }
+
+  public cmp(other: Money): Comparison {
+    this.assertCurrency(other, "cmp");
+    return this.amount.cmp(other.amount);
+  }
+
+  public eq(other: Money): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  public gt(other: Money): boolean {
+    return this.cmp(other) === 1;
+  }
+
+  public gte(other: Money): boolean {
+    return this.cmp(other) !== -1;
+  }
+
+  public lt(other: Money): boolean {
+    return this.cmp(other) === -1;
+  }
+
+  public lte(other: Money): boolean {
+    return this.cmp(other) !== 1;
+  }
+
+  public isZero(): boolean {
+    return this.amount.isZero();
+  }
+
+  public isPositive(): boolean {
+    return this.amount.isPositive();
+  }
+
+  public isNegative(): boolean {
+    return this.amount.isNegative();
+  }
+
+  public format(options: MoneyFormatOptions = {}): string {
+    return format_money(this.amount, this.currency, this.ctx.places, options);
+  }
+
+  private amountString(): string {
+    return this.amount.toFormat({
+      useGrouping: false,
+      minimumFractionDigits: this.ctx.places,
+    });
+  }
+
+  public toString(): string {
+    return `${this.amountString()} ${this.currency}`;
+  }
+
+  public toJSON(): { amount: string; currency: string } {
+    return { amount: this.amountString(), currency: this.currency };
+  }
+}
@@ -0,0 +1,91 @@
+import BasisPoints from "./BasisPoints";
+import FixedPrecision, {
+  type FixedPrecisionConfig,
+  type FixedPrecisionValue,
+  type FormatOptions,
+} from "./FixedPrecision";
+import type Money from "./Money";
+import {
+  format_percent,
+  PERCENT_EXPONENT,
+  parse_unit_value,
+  strip_unit_suffix,
+  unit_ratio,
+  unit_to_decimal,
+  unit_value,
+} from "./units";
+
+const PERCENT_SUFFIXES = ["%"] as const;
+
+export default class Percent {
+  public readonly value: FixedPrecision;
+
+  private constructor(value: FixedPrecision) {
+    this.value = value;
+  }
+
+  public static of(value: FixedPrecisionValue): Percent {
+    return new Percent(unit_value(value));
+  }
+
+  public static parse(str: string, config?: FixedPrecisionConfig): Percent {
+    return new Percent(
+      parse_unit_value(
+        strip_unit_suffix(str, PERCENT_SUFFIXES, "parse"),
+        config,
+      ),
+    );
+  }
+
+  public static fromDecimal(value: FixedPrecisionValue): Percent {
+    return new Percent(unit_value(value).shiftedBy(PERCENT_EXPONENT));
+  }
+
+  public static isPercent(value: unknown): value is Percent {
+    return value instanceof Percent;
+  }
+
+  public toDecimal(): FixedPrecision {
+    return unit_to_decimal(this.value, PERCENT_EXPONENT);
+  }
+
+  public toBasisPoints(): BasisPoints {
+    return BasisPoints.of(this.value.shiftedBy(PERCENT_EXPONENT));
+  }
+
+  public applyTo(amount: FixedPrecision): FixedPrecision;
+  public applyTo(amount: Money): Money;
+  public applyTo(amount: FixedPrecision | Money): FixedPrecision | Money {
+    return amount instanceof FixedPrecision
+      ? amount.mul(unit_ratio(this.value, PERCENT_EXPONENT))
+      : amount.mul(this);
+  }
+
+  public addTo(amount: FixedPrecision): FixedPrecision;
+  public addTo(amount: Money): Money;
+  public addTo(amount: FixedPrecision | Money): FixedPrecision | Money {
+    return amount instanceof FixedPrecision
+      ? amount.add(this.applyTo(amount))
+      : amount.add(this.applyTo(amount));
+  }
+
+  public subtractFrom(amount: FixedPrecision): FixedPrecision;
+  public subtractFrom(amount: Money): Money;
+  public subtractFrom(amount: FixedPrecision | Money): FixedPrecision | Money {
+    return amount instanceof FixedPrecision
+      ? amount.sub(this.applyTo(amount))
+      : amount.sub(this.applyTo(amount));
+  }
+
+  public toFormat(options: FormatOptions = {}): string {
+    return format_percent(this.value, options);
+  }
+
+  public toString(): string {
+    return `${this.value.toString()}%`;
+  }
+
+  public toJSON(): string {
+    return this.toString();
+  }
+}
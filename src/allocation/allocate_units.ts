@@ -0,0 +1,60 @@
+import { DomainError } from "../core/errors";
+import type { AllocationStrategy } from "../FixedPrecision";
+
+const STRATEGIES: readonly AllocationStrategy[] = [
+  "largestRemainder",
+  "first",
+  "roundRobin",
+];
+
+function remainder_order(remainders: bigint[]): number[] {
+  return remainders
+    .map((_, index) => index)
+    .sort((a, b) =>
+      remainders[a] === remainders[b]
+        ? a - b
+        : remainders[a] > remainders[b]
+          ? -1
+          : 1,
+    );
+}
+
+export function allocate_units(
+  total: bigint,
+  weights: bigint[],
+  strategy: AllocationStrategy,
+  operation: string,
+): bigint[] {
+  if (!STRATEGIES.includes(strategy)) {
+    throw new DomainError(
+      "Invalid allocation strategy. Must be largestRemainder, first or roundRobin",
+      operation,
+      [strategy],
+    );
+  }
+
+  const negative = total < 0n;
+  const amount = negative ? -total : total;
+  const weight_total = weights.reduce((sum, weight) => sum + weight, 0n);
+  const parts = weights.map((weight) => (amount * weight) / weight_total);
+  let leftover = parts.reduce((rest, part) => rest - part, amount);
+
+  const eligible = weights
+    .map((weight, index) => (weight > 0n ? index : -1))
+    .filter((index) => index >= 0);
+  if (strategy === "first") {
+    parts[eligible[0]] += leftover;
+  } else {
+    const order =
+      strategy === "largestRemainder"
+        ? remainder_order(
+            weights.map((weight) => (amount * weight) % weight_total),
+          )
+        : eligible;
+    for (let i = 0; leftover > 0n; i++, leftover--) {
+      parts[order[i % order.length]] += 1n;
+    }
+  }
+
+  return negative ? parts.map((part) => -part) : parts;
+}
@@ -0,0 +1,25 @@
+import { exact_factor } from "../construction/exact_factor";
+import { DomainError } from "../core/errors";
+import type { RateValue } from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+
+export function exact_weights(
+  ratios: readonly RateValue[],
+  operation: string,
+): bigint[] {
+  const factors = ratios.map((ratio) => exact_factor(ratio, operation));
+  const scale = Math.max(0, ...factors.map((factor) => factor.scale));
+  const weights = factors.map(
+    (factor) => factor.coefficient * powerOfTen(scale - factor.scale),
+  );
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (weights.some((weight) => weight < 0n) || total === 0n) {
+    throw new DomainError(
+      "Ratios must be non-negative with a positive total",
+      operation,
+      ratios.map(String),
+    );
+  }
+  return weights;
+}
@@ -0,0 +1,2 @@
+export { allocate_units } from "./allocate_units";
+export { exact_weights } from "./exact_weights";
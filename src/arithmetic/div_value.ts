@@ -0,0 +1,16 @@
+import { signal_division } from "../core/signals";
+import type { FPContext, RoundingMode } from "../FixedPrecision";
+import { divide_with_signals } from "./internal/divide_with_signals";
+
+export function div_value(
+  left: bigint,
+  right: bigint,
+  ctx: FPContext,
+  rm: RoundingMode,
+): bigint {
+  const operands = [left, right];
+  if (signal_division(ctx, left, right, "div", operands)) {
+    return 0n;
+  }
+  return divide_with_signals(left * ctx.SCALE, right, ctx, rm, "div", operands);
+}
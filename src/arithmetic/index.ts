@@ -1,10 +1,14 @@
 export { abs_value } from "./abs_value.js";
 export { cbrt_value } from "./cbrt_value.js";
+export { div_value } from "./div_value.js";
 export { exp_value } from "./exp_value.js";
 export { gcd } from "./gcd.js";
+export { divide_with_signals } from "./internal/divide_with_signals.js";
 export { log_value } from "./log_value.js";
 export { log2_value } from "./log2_value.js";
 export { log10_value } from "./log10_value.js";
+export { mod_value } from "./mod_value.js";
+export { mul_value } from "./mul_value.js";
 export { natural_log_value } from "./natural_log_value.js";
 export { power } from "./power.js";
 export { precision_value } from "./precision_value.js";
@@ -1,5 +1,16 @@
-export function assert_positive(value: bigint): void {
+import { DomainError, format_scaled } from "../../core/errors";
+import type { FPContext } from "../../FixedPrecision";
+
+export function assert_positive(
+  value: bigint,
+  ctx: FPContext,
+  operation: string,
+): void {
   if (value <= 0n) {
-    throw new Error("Logarithm is undefined for non-positive values");
+    throw new DomainError(
+      "Logarithm is undefined for non-positive values",
+      operation,
+      [format_scaled(value, ctx.SCALE)],
+    );
   }
 }
@@ -1,5 +1,9 @@
-export function assert_significant_digits(sd: number): void {
+import { DomainError } from "../../core/errors";
+
+export function assert_significant_digits(sd: number, operation: string): void {
   if (!Number.isInteger(sd) || sd < 1 || sd >= 1e6) {
-    throw new Error("Precision must be a positive integer");
+    throw new DomainError("Precision must be a positive integer", operation, [
+      sd,
+    ]);
   }
 }
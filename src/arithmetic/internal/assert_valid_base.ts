@@ -1,7 +1,16 @@
+import { DomainError, format_scaled } from "../../core/errors";
 import type { FPContext } from "../../FixedPrecision";
 
-export function assert_valid_base(base: bigint, ctx: FPContext): void {
+export function assert_valid_base(
+  value: bigint,
+  base: bigint,
+  ctx: FPContext,
+): void {
   if (base <= 0n || base === ctx.SCALE) {
-    throw new Error("Logarithm base must be positive and not equal to 1");
+    throw new DomainError(
+      "Logarithm base must be positive and not equal to 1",
+      "log",
+      [format_scaled(value, ctx.SCALE), format_scaled(base, ctx.SCALE)],
+    );
   }
 }
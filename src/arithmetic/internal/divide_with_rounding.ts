@@ -0,0 +1,13 @@
+import type { RoundingMode } from "../../FixedPrecision";
+import { round_to_scale_value } from "../round_to_scale_value";
+
+export function divide_with_rounding(
+  value: bigint,
+  divisor: bigint,
+  rm: RoundingMode,
+): bigint {
+  if (divisor < 0n) {
+    return round_to_scale_value(-value, -divisor, rm);
+  }
+  return round_to_scale_value(value, divisor, rm);
+}
@@ -0,0 +1,15 @@
+import { signal_rounding } from "../../core/signals";
+import type { FPContext, RoundingMode } from "../../FixedPrecision";
+import { divide_with_rounding } from "./divide_with_rounding";
+
+export function divide_with_signals(
+  value: bigint,
+  divisor: bigint,
+  ctx: FPContext,
+  rm: RoundingMode,
+  operation: string,
+  operands: readonly unknown[],
+): bigint {
+  signal_rounding(ctx, value, divisor, operation, operands);
+  return divide_with_rounding(value, divisor, rm);
+}
@@ -5,7 +5,11 @@ import type { Work_Context } from "./work_context";
 export function exp_work(value: bigint, work: Work_Context): bigint {
   const exponent = divide_rounded(value, work.ln2);
   const reduced = value - exponent * work.ln2;
-  let result = exp_reduced_work(reduced, work.scale);
+  let result = exp_reduced_work(
+    reduced,
+    work.scale,
+    work.max_iterations,
+  );
 
   if (exponent > 0n) {
     result <<= exponent;
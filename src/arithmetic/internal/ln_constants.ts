@@ -1,6 +1,9 @@
 export const GUARD_SCALE = 1000n;
 export const MAX_SERIES_ITERATIONS = 160n;
-export const LN2 =
-  "0.69314718055994530941723212145817656807550013436025525412068000949339362196969472";
-export const LN10 =
-  "2.30258509299404568401799145468436420760110148862877297603332790096757260967735248";
+
+export function get_max_series_iterations(places: number): bigint {
+  const iterations = BigInt(places * 2 + 20);
+  return iterations > MAX_SERIES_ITERATIONS
+    ? iterations
+    : MAX_SERIES_ITERATIONS;
+}
@@ -1,6 +1,8 @@
-import { MAX_SERIES_ITERATIONS } from "./ln_constants";
-
-export function natural_log_one_to_two(value: bigint, scale: bigint): bigint {
+export function natural_log_one_to_two(
+  value: bigint,
+  scale: bigint,
+  max_iterations: bigint,
+): bigint {
   const z = ((value - scale) * scale) / (value + scale);
   const z_squared = (z * z) / scale;
   let term = z;
@@ -9,7 +11,7 @@ export function natural_log_one_to_two(value: bigint, scale: bigint): bigint {
 
   for (
     let index = 0n;
-    index < MAX_SERIES_ITERATIONS && term !== 0n;
+    index < max_iterations && term !== 0n;
     index += 1n
   ) {
     sum += term / divisor;
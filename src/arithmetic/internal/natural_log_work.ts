@@ -15,5 +15,8 @@ export function natural_log_work(value: bigint, work: Work_Context): bigint {
     exponent -= 1n;
   }
 
-  return exponent * work.ln2 + natural_log_one_to_two(normalized, work.scale);
+  return (
+    exponent * work.ln2 +
+    natural_log_one_to_two(normalized, work.scale, work.max_iterations)
+  );
 }
@@ -1,17 +1,25 @@
+import type { FPContext, RoundingMode } from "../../FixedPrecision";
+import { divide_with_signals } from "./divide_with_signals";
+
 export function power_by_squaring(
   value: bigint,
   exp: number,
-  scale: bigint,
+  ctx: FPContext,
+  rm: RoundingMode,
+  operands: readonly unknown[],
 ): bigint {
+  const scale = ctx.SCALE;
   let e = exp;
   let base = value;
   let acc = scale;
 
   while (e > 0) {
-    if (e & 1) acc = (acc * base) / scale;
+    if (e & 1) {
+      acc = divide_with_signals(acc * base, scale, ctx, rm, "pow", operands);
+    }
     e = e >> 1;
     if (e > 0) {
-      base = (base * base) / scale;
+      base = divide_with_signals(base * base, scale, ctx, rm, "pow", operands);
     }
   }
 
@@ -1,12 +1,13 @@
+import { ln2_value, ln10_value } from "../../constants";
 import type { FPContext } from "../../FixedPrecision";
-import { GUARD_SCALE, LN2, LN10 } from "./ln_constants";
-import { scaled_decimal } from "./scaled_decimal";
+import { GUARD_SCALE, get_max_series_iterations } from "./ln_constants";
 
 let work_context_cache: Map<bigint, Work_Context> | undefined;
 
 export type Work_Context = {
   scale: bigint;
   upper_bound: bigint;
+  max_iterations: bigint;
   ln2: bigint;
   ln10: bigint;
 };
@@ -29,7 +30,8 @@ function make_work_context(ctx: FPContext): Work_Context {
   return {
     scale,
     upper_bound: scale << 1n,
-    ln2: scaled_decimal(LN2, scale),
-    ln10: scaled_decimal(LN10, scale),
+    max_iterations: get_max_series_iterations(ctx.places),
+    ln2: ln2_value(scale, 1),
+    ln10: ln10_value(scale, 1),
   };
 }
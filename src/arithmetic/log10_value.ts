@@ -6,7 +6,7 @@ import { from_work_scale, to_work_scale } from "./internal/scale_utils";
 import { get_work_context } from "./internal/work_context";
 
 export function log10_value(value: bigint, ctx: FPContext): bigint {
-  assert_positive(value);
+  assert_positive(value, ctx, "log10");
   const exact = exact_power_of_ten_log(value, ctx.SCALE);
   if (exact !== undefined) {
     return exact;
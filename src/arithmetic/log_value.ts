@@ -1,3 +1,4 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { assert_positive } from "./internal/assert_positive";
 import { assert_valid_base } from "./internal/assert_valid_base";
@@ -6,14 +7,18 @@ import { from_work_scale, to_work_scale } from "./internal/scale_utils";
 import { get_work_context } from "./internal/work_context";
 
 export function log_value(value: bigint, base: bigint, ctx: FPContext): bigint {
-  assert_positive(value);
-  assert_valid_base(base, ctx);
+  assert_positive(value, ctx, "log");
+  assert_valid_base(value, base, ctx);
 
   const work = get_work_context(ctx);
   const numerator = natural_log_work(to_work_scale(value), work);
   const denominator = natural_log_work(to_work_scale(base), work);
   if (denominator === 0n) {
-    throw new Error("Logarithm base must be positive and not equal to 1");
+    throw new DomainError(
+      "Logarithm base is 1 at the working precision",
+      "log",
+      [format_scaled(value, ctx.SCALE), format_scaled(base, ctx.SCALE)],
+    );
   }
 
   return from_work_scale((numerator * work.scale) / denominator);
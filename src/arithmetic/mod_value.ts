@@ -0,0 +1,9 @@
+import { signal_division } from "../core/signals";
+import type { FPContext } from "../FixedPrecision";
+
+export function mod_value(left: bigint, right: bigint, ctx: FPContext): bigint {
+  if (signal_division(ctx, left, right, "mod", [left, right])) {
+    return 0n;
+  }
+  return (left * ctx.SCALE) % right;
+}
@@ -0,0 +1,14 @@
+import type { FPContext, RoundingMode } from "../FixedPrecision";
+import { divide_with_signals } from "./internal/divide_with_signals";
+
+export function mul_value(
+  left: bigint,
+  right: bigint,
+  ctx: FPContext,
+  rm: RoundingMode,
+): bigint {
+  return divide_with_signals(left * right, ctx.SCALE, ctx, rm, "mul", [
+    left,
+    right,
+  ]);
+}
@@ -5,7 +5,7 @@ import { from_work_scale, to_work_scale } from "./internal/scale_utils";
 import { get_work_context } from "./internal/work_context";
 
 export function natural_log_value(value: bigint, ctx: FPContext): bigint {
-  assert_positive(value);
+  assert_positive(value, ctx, "ln");
   const work = get_work_context(ctx);
   return from_work_scale(natural_log_work(to_work_scale(value), work));
 }
@@ -1,11 +1,29 @@
+import { DomainError, format_scaled } from "../core/errors";
+import { signal_division } from "../core/signals";
+import type { FPContext, RoundingMode } from "../FixedPrecision";
+import { divide_with_signals } from "./internal/divide_with_signals";
 import { power_by_squaring } from "./internal/power_by_squaring";
 
-export function power(value: bigint, exp: number, scale: bigint): bigint {
-  if (!Number.isInteger(exp)) throw new Error("Exponent must be an integer");
+export function power(
+  value: bigint,
+  exp: number,
+  ctx: FPContext,
+  rm: RoundingMode,
+): bigint {
+  const scale = ctx.SCALE;
+  const operands = [value, exp];
+  if (!Number.isInteger(exp)) {
+    throw new DomainError("Exponent must be an integer", "pow", [
+      format_scaled(value, scale),
+      exp,
+    ]);
+  }
   if (exp === 0) return scale;
 
   if (value === 0n) {
-    if (exp < 0) throw new Error("0 ** negative is undefined");
+    if (exp < 0) {
+      signal_division(ctx, scale, value, "pow", operands);
+    }
     return 0n;
   }
 
@@ -16,15 +34,33 @@ export function power(value: bigint, exp: number, scale: bigint): bigint {
   if (absExp === 1) {
     result = value;
   } else if (absExp === 2) {
-    result = (value * value) / scale;
+    result = divide_with_signals(
+      value * value,
+      scale,
+      ctx,
+      rm,
+      "pow",
+      operands,
+    );
   } else if (absExp === 3) {
-    result = (((value * value) / scale) * value) / scale;
+    result = divide_with_signals(
+      divide_with_signals(value * value, scale, ctx, rm, "pow", operands) *
+        value,
+      scale,
+      ctx,
+      rm,
+      "pow",
+      operands,
+    );
   } else {
-    result = power_by_squaring(value, absExp, scale);
+    result = power_by_squaring(value, absExp, ctx, rm, operands);
   }
 
   if (isNegativeExponent) {
-    return (scale * scale) / result;
+    if (signal_division(ctx, scale, result, "pow", operands)) {
+      return 0n;
+    }
+    return divide_with_signals(scale * scale, result, ctx, rm, "pow", operands);
   }
   return result;
 }
@@ -9,7 +9,7 @@ export function precision_value(
   rm: RoundingMode,
   ctx: FPContext,
 ): bigint {
-  assert_significant_digits(sd);
+  assert_significant_digits(sd, "prec");
 
   if (value === 0n) {
     return 0n;
@@ -1,3 +1,4 @@
+import { ConfigurationError } from "../core/errors";
 import type { RoundingMode } from "../FixedPrecision";
 import { round_half } from "./internal/round_half";
 import { round_half_even } from "./internal/round_half_even";
@@ -36,6 +37,10 @@ export function round_to_scale_value(
     case 8:
       return round_half_floor(q, rem, rounding_factor, is_positive);
     default:
-      throw new Error(`Rounding mode ${rm} is not supported.`);
+      throw new ConfigurationError(
+        `Rounding mode ${rm} is not supported.`,
+        "round",
+        [rm],
+      );
   }
 }
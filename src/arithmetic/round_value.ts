@@ -1,3 +1,4 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext, RoundingMode } from "../FixedPrecision";
 import { powerOfTen } from "../utils";
 import { round_half_up_scaled_value } from "./internal/round_half_up_scaled_value";
@@ -10,7 +11,11 @@ export function round_value(
   ctx: FPContext,
 ): bigint {
   if (dp < 0 || dp > ctx.places) {
-    throw new Error(`Decimal places (dp) must be between 0 and ${ctx.places}`);
+    throw new DomainError(
+      `Decimal places (dp) must be between 0 and ${ctx.places}`,
+      "round",
+      [format_scaled(value, ctx.SCALE), dp],
+    );
   }
   const diff = ctx.places - dp;
   const factor = powerOfTen(diff);
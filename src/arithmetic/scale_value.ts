@@ -1,3 +1,5 @@
+import { MAX_PLACES } from "../core/context";
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext, RoundingMode } from "../FixedPrecision";
 import { powerOfTen } from "../utils";
 import { round_to_scale_value } from "./round_to_scale_value";
@@ -8,8 +10,16 @@ export function scale_value(
   rm: RoundingMode,
   ctx: FPContext,
 ): bigint {
-  if (!Number.isInteger(new_places) || new_places < 0 || new_places > 20) {
-    throw new Error("newScale must be an integer between 0 and 20");
+  if (
+    !Number.isInteger(new_places) ||
+    new_places < 0 ||
+    new_places > MAX_PLACES
+  ) {
+    throw new DomainError(
+      `newScale must be an integer between 0 and ${MAX_PLACES}`,
+      "scale",
+      [format_scaled(value, ctx.SCALE), new_places],
+    );
   }
 
   if (new_places === ctx.places) {
@@ -1,5 +1,11 @@
+import { DomainError, format_scaled } from "../core/errors";
+
 export function sqrt_value(x: bigint, scale: bigint): bigint {
-  if (x < 0n) throw new Error("Square root of negative number");
+  if (x < 0n) {
+    throw new DomainError("Square root of negative number", "sqrt", [
+      format_scaled(x, scale),
+    ]);
+  }
   if (x === 0n) return 0n;
   if (x === scale) return scale;
 
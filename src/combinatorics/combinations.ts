@@ -1,6 +1,12 @@
+import { DomainError } from "../core/errors";
+
 export function combinations_value(n: number, k: number): bigint {
   if (n < 0 || !Number.isInteger(n) || k < 0 || !Number.isInteger(k)) {
-    throw new Error("Combinations are only defined for non-negative integers");
+    throw new DomainError(
+      "Combinations are only defined for non-negative integers",
+      "combinations",
+      [n, k],
+    );
   }
   if (k > n) return 0n;
   let targetK = k;
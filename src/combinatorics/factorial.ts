@@ -1,6 +1,12 @@
+import { DomainError } from "../core/errors";
+
 export function factorial_value(n: number): bigint {
   if (n < 0 || !Number.isInteger(n)) {
-    throw new Error("Factorial is only defined for non-negative integers");
+    throw new DomainError(
+      "Factorial is only defined for non-negative integers",
+      "factorial",
+      [n],
+    );
   }
   let result = 1n;
   for (let i = 2n; i <= BigInt(n); i++) {
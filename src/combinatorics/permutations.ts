@@ -1,6 +1,12 @@
+import { DomainError } from "../core/errors";
+
 export function permutations_value(n: number, k: number): bigint {
   if (n < 0 || !Number.isInteger(n) || k < 0 || !Number.isInteger(k)) {
-    throw new Error("Permutations are only defined for non-negative integers");
+    throw new DomainError(
+      "Permutations are only defined for non-negative integers",
+      "permutations",
+      [n, k],
+    );
   }
   if (k > n) return 0n;
   let result = 1n;
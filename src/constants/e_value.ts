@@ -0,0 +1,16 @@
+import type { RoundingMode } from "../FixedPrecision";
+import { type Constant_Cache, scaled_constant } from "./internal/scaled_constant";
+
+const e_cache: Constant_Cache = new Map();
+
+export function e_value(scale: bigint, rm: RoundingMode): bigint {
+  return scaled_constant(e_cache, scale, rm, (work) => {
+    let term = work;
+    let sum = 0n;
+    for (let k = 1n; term !== 0n; k += 1n) {
+      sum += term;
+      term /= k;
+    }
+    return sum;
+  });
+}
@@ -0,0 +1,6 @@
+export { e_value } from "./e_value";
+export { ln2_value } from "./ln2_value";
+export { ln10_value } from "./ln10_value";
+export { phi_value } from "./phi_value";
+export { pi_value } from "./pi_value";
+export { sqrt2_value } from "./sqrt2_value";
@@ -0,0 +1,17 @@
+export function atan_inverse(x: bigint, scale: bigint): bigint {
+  const x_squared = x * x;
+  let power = scale / x;
+  let sum = power;
+  let divisor = 1n;
+
+  while (power !== 0n) {
+    power /= x_squared;
+    divisor += 2n;
+    sum -= power / divisor;
+    power /= x_squared;
+    divisor += 2n;
+    sum += power / divisor;
+  }
+
+  return sum;
+}
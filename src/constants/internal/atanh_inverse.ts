@@ -0,0 +1,14 @@
+export function atanh_inverse(x: bigint, scale: bigint): bigint {
+  const x_squared = x * x;
+  let power = scale / x;
+  let sum = 0n;
+  let divisor = 1n;
+
+  while (power !== 0n) {
+    sum += power / divisor;
+    power /= x_squared;
+    divisor += 2n;
+  }
+
+  return sum;
+}
@@ -0,0 +1,20 @@
+import { round_to_scale_value } from "../../arithmetic";
+import type { RoundingMode } from "../../FixedPrecision";
+
+const CONSTANT_GUARD_SCALE = 10_000_000_000n;
+
+export type Constant_Cache = Map<bigint, bigint>;
+
+export function scaled_constant(
+  cache: Constant_Cache,
+  scale: bigint,
+  rm: RoundingMode,
+  compute: (work_scale: bigint) => bigint,
+): bigint {
+  let work = cache.get(scale);
+  if (work === undefined) {
+    work = compute(scale * CONSTANT_GUARD_SCALE);
+    cache.set(scale, work);
+  }
+  return round_to_scale_value(work, CONSTANT_GUARD_SCALE, rm);
+}
@@ -0,0 +1,16 @@
+import type { RoundingMode } from "../FixedPrecision";
+import { atanh_inverse } from "./internal/atanh_inverse";
+import { type Constant_Cache, scaled_constant } from "./internal/scaled_constant";
+import { ln2_work } from "./ln2_value";
+
+const ln10_cache: Constant_Cache = new Map();
+
+// ln 10 = 3 ln 2 + ln(5/4) = 3 ln 2 + 2 atanh(1/9)
+export function ln10_value(scale: bigint, rm: RoundingMode): bigint {
+  return scaled_constant(
+    ln10_cache,
+    scale,
+    rm,
+    (work) => 3n * ln2_work(work) + (atanh_inverse(9n, work) << 1n),
+  );
+}
@@ -0,0 +1,18 @@
+import type { RoundingMode } from "../FixedPrecision";
+import { atanh_inverse } from "./internal/atanh_inverse";
+import { type Constant_Cache, scaled_constant } from "./internal/scaled_constant";
+
+const ln2_cache: Constant_Cache = new Map();
+
+// ln 2 = 18 atanh(1/26) - 2 atanh(1/4801) + 8 atanh(1/8749)
+export function ln2_work(work: bigint): bigint {
+  return (
+    18n * atanh_inverse(26n, work) -
+    2n * atanh_inverse(4801n, work) +
+    8n * atanh_inverse(8749n, work)
+  );
+}
+
+export function ln2_value(scale: bigint, rm: RoundingMode): bigint {
+  return scaled_constant(ln2_cache, scale, rm, ln2_work);
+}
@@ -0,0 +1,14 @@
+import { sqrt_value } from "../arithmetic";
+import type { RoundingMode } from "../FixedPrecision";
+import { type Constant_Cache, scaled_constant } from "./internal/scaled_constant";
+
+const phi_cache: Constant_Cache = new Map();
+
+export function phi_value(scale: bigint, rm: RoundingMode): bigint {
+  return scaled_constant(
+    phi_cache,
+    scale,
+    rm,
+    (work) => (work + sqrt_value(5n * work, work)) >> 1n,
+  );
+}
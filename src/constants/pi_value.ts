@@ -0,0 +1,15 @@
+import type { RoundingMode } from "../FixedPrecision";
+import { atan_inverse } from "./internal/atan_inverse";
+import { type Constant_Cache, scaled_constant } from "./internal/scaled_constant";
+
+const pi_cache: Constant_Cache = new Map();
+
+// Machin: pi = 16 atan(1/5) - 4 atan(1/239)
+export function pi_value(scale: bigint, rm: RoundingMode): bigint {
+  return scaled_constant(
+    pi_cache,
+    scale,
+    rm,
+    (work) => (atan_inverse(5n, work) << 4n) - (atan_inverse(239n, work) << 2n),
+  );
+}
@@ -0,0 +1,11 @@
+import { sqrt_value } from "../arithmetic";
+import type { RoundingMode } from "../FixedPrecision";
+import { type Constant_Cache, scaled_constant } from "./internal/scaled_constant";
+
+const sqrt2_cache: Constant_Cache = new Map();
+
+export function sqrt2_value(scale: bigint, rm: RoundingMode): bigint {
+  return scaled_constant(sqrt2_cache, scale, rm, (work) =>
+    sqrt_value(work << 1n, work),
+  );
+}
@@ -0,0 +1,50 @@
+import BasisPoints from "../BasisPoints";
+import { ParseError } from "../core/errors";
+import FixedPrecision, { type RateValue } from "../FixedPrecision";
+import Percent from "../Percent";
+import { parse_decimal_string } from "../string";
+import { powerOfTen } from "../utils";
+
+const MAX_FACTOR_SCALE = 100_000;
+
+export type Exact_Factor = {
+  coefficient: bigint;
+  scale: number;
+};
+
+export function exact_factor(
+  factor: RateValue,
+  operation: string,
+): Exact_Factor {
+  if (factor instanceof Percent || factor instanceof BasisPoints) {
+    return exact_factor(factor.toDecimal(), operation);
+  }
+  if (factor instanceof FixedPrecision) {
+    return { coefficient: factor.raw(), scale: factor.places() };
+  }
+  if (typeof factor === "number" && !Number.isFinite(factor)) {
+    throw new ParseError(
+      "Invalid number: value must be a finite number.",
+      operation,
+      [factor],
+    );
+  }
+
+  const str = String(factor);
+  const { negative, integer, fraction, exponent } = parse_decimal_string(
+    str,
+    true,
+  );
+  const scale = fraction.length - exponent;
+  if (Math.abs(scale) > MAX_FACTOR_SCALE) {
+    throw new ParseError(`Exponent is too large: ${exponent}`, operation, [
+      str,
+    ]);
+  }
+
+  const magnitude = BigInt(integer + fraction);
+  const coefficient = negative ? -magnitude : magnitude;
+  return scale < 0
+    ? { coefficient: coefficient * powerOfTen(-scale), scale: 0 }
+    : { coefficient, scale };
+}
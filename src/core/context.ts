@@ -1,9 +1,25 @@
 import type {
+  ExcessDigitsPolicy,
   FixedPrecisionConfig,
   FPContext,
+  NumberConversion,
   RoundingMode,
 } from "../FixedPrecision";
 import { powerOfTen } from "../utils";
+import { ConfigurationError } from "./errors";
+import { assertTraps, DEFAULT_TRAPS } from "./signals";
+
+export const MAX_PLACES = 1000;
+
+export function assertPlaces(places: number, operation: string): void {
+  if (!Number.isInteger(places) || places < 0 || places > MAX_PLACES) {
+    throw new ConfigurationError(
+      `Decimal places must be an integer between 0 and ${MAX_PLACES}`,
+      operation,
+      [places],
+    );
+  }
+}
 
 export function makeContext(
   places: number,
@@ -14,23 +30,117 @@ export function makeContext(
     roundingMode,
     SCALE: powerOfTen(places),
     SCALENUMBER: 10 ** places,
+    traps: DEFAULT_TRAPS,
+    flags: new Set(),
+    allowBareDecimalPoint: true,
+    onExcessDigits: "round",
+    numberConversion: "shortest",
   };
 }
 
-function assertPlaces(places: number): void {
-  if (!Number.isInteger(places) || places < 0 || places > 20) {
-    throw new Error("Decimal places must be an integer between 0 and 20");
-  }
+export function withPlaces(
+  ctx: FPContext,
+  places: number,
+  roundingMode: RoundingMode = ctx.roundingMode,
+): FPContext {
+  return {
+    ...ctx,
+    places,
+    roundingMode,
+    SCALE: powerOfTen(places),
+    SCALENUMBER: 10 ** places,
+  };
 }
 
-function assertRoundingMode(value: number): asserts value is RoundingMode {
+export function assertRoundingMode(
+  value: number,
+  operation: string,
+): asserts value is RoundingMode {
   if (!Number.isInteger(value) || value < 0 || value > 8) {
-    throw new Error(
+    throw new ConfigurationError(
       "Invalid rounding mode. Must be 0, 1, 2, 3, 4, 5, 6, 7 or 8",
+      operation,
+      [value],
+    );
+  }
+}
+
+function assertBoolean(value: boolean, name: string, operation: string): void {
+  if (typeof value !== "boolean") {
+    throw new ConfigurationError(`${name} must be a boolean`, operation, [
+      value,
+    ]);
+  }
+}
+
+const EXCESS_DIGITS_POLICIES: readonly ExcessDigitsPolicy[] = [
+  "round",
+  "truncate",
+  "throw",
+];
+
+function assertExcessDigitsPolicy(
+  value: ExcessDigitsPolicy,
+  operation: string,
+): void {
+  if (!EXCESS_DIGITS_POLICIES.includes(value)) {
+    throw new ConfigurationError(
+      'Invalid onExcessDigits. Must be "round", "truncate" or "throw"',
+      operation,
+      [value],
+    );
+  }
+}
+
+const NUMBER_CONVERSIONS: readonly NumberConversion[] = ["shortest", "exact"];
+
+function assertNumberConversion(
+  value: NumberConversion,
+  operation: string,
+): void {
+  if (!NUMBER_CONVERSIONS.includes(value)) {
+    throw new ConfigurationError(
+      'Invalid numberConversion. Must be "shortest" or "exact"',
+      operation,
+      [value],
     );
   }
 }
 
+function applyOptions(
+  config: FixedPrecisionConfig,
+  ctx: FPContext,
+  operation: string,
+): FPContext {
+  const next = { ...ctx };
+
+  if (config.traps !== undefined) {
+    assertTraps(config.traps, operation);
+    next.traps = new Set(config.traps);
+  }
+
+  if (config.allowBareDecimalPoint !== undefined) {
+    assertBoolean(
+      config.allowBareDecimalPoint,
+      "allowBareDecimalPoint",
+      operation,
+    );
+    next.allowBareDecimalPoint = config.allowBareDecimalPoint;
+  }
+
+  if (config.onExcessDigits !== undefined) {
+    assertExcessDigitsPolicy(config.onExcessDigits, operation);
+    next.onExcessDigits = config.onExcessDigits;
+  }
+
+  if (config.numberConversion !== undefined) {
+    assertNumberConversion(config.numberConversion, operation);
+    next.numberConversion = config.numberConversion;
+  }
+
+  return next;
+}
+
 export function configureContext(
   config: FixedPrecisionConfig,
   current: FPContext,
@@ -38,27 +148,38 @@ export function configureContext(
   let { places, roundingMode } = current;
 
   if (config.places !== undefined) {
-    assertPlaces(config.places);
+    assertPlaces(config.places, "configure");
     places = config.places;
   }
 
   if (config.roundingMode !== undefined) {
-    assertRoundingMode(config.roundingMode);
+    assertRoundingMode(config.roundingMode, "configure");
     roundingMode = config.roundingMode;
   }
 
-  return makeContext(places, roundingMode);
+  return applyOptions(
+    config,
+    withPlaces(current, places, roundingMode),
+    "configure",
+  );
 }
 
 export function FactoryContext(config: FixedPrecisionConfig): FPContext {
   if (config.places === undefined) {
-    throw new Error("Decimal places must be specified in factory config");
+    throw new ConfigurationError(
+      "Decimal places must be specified in factory config",
+      "create",
+    );
   }
 
-  assertPlaces(config.places);
+  assertPlaces(config.places, "create");
 
   const roundingMode = config.roundingMode ?? 4;
-  assertRoundingMode(roundingMode);
+  assertRoundingMode(roundingMode, "create");
 
-  return makeContext(config.places, roundingMode);
+  return applyOptions(
+    config,
+    makeContext(config.places, roundingMode),
+    "create",
+  );
 }
@@ -0,0 +1,122 @@
+import type { Signal } from "../FixedPrecision";
+
+export type ErrorCode =
+  | "CONFIGURATION_ERROR"
+  | "CURRENCY_MISMATCH"
+  | "DIVISION_BY_ZERO"
+  | "DOMAIN_ERROR"
+  | "PARSE_ERROR"
+  | "PRECISION_MISMATCH"
+  | "SIGNAL_TRAPPED";
+
+export class FixedPrecisionError extends Error {
+  public readonly code: ErrorCode;
+  public readonly operation: string;
+  public readonly operands: readonly unknown[];
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.operation = operation;
+    this.operands = operands;
+  }
+}
+
+export class ConfigurationError extends FixedPrecisionError {
+  constructor(
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+  ) {
+    super("CONFIGURATION_ERROR", message, operation, operands);
+  }
+}
+
+export class CurrencyMismatchError extends FixedPrecisionError {
+  constructor(
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+  ) {
+    super("CURRENCY_MISMATCH", message, operation, operands);
+  }
+}
+
+export class DomainError extends FixedPrecisionError {
+  constructor(
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+  ) {
+    super("DOMAIN_ERROR", message, operation, operands);
+  }
+}
+
+export class ParseError extends FixedPrecisionError {
+  public readonly index: number | undefined;
+
+  constructor(
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+    index?: number,
+  ) {
+    super("PARSE_ERROR", message, operation, operands);
+    this.index = index;
+  }
+}
+
+export class PrecisionMismatchError extends FixedPrecisionError {
+  constructor(
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+  ) {
+    super("PRECISION_MISMATCH", message, operation, operands);
+  }
+}
+
+export class SignalError extends FixedPrecisionError {
+  public readonly signal: Signal;
+
+  constructor(
+    signal: Signal,
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+    code: ErrorCode = "SIGNAL_TRAPPED",
+  ) {
+    super(code, message, operation, operands);
+    this.signal = signal;
+  }
+}
+
+export class DivisionByZeroError extends SignalError {
+  constructor(
+    signal: "DivisionByZero" | "InvalidOperation",
+    message: string,
+    operation: string,
+    operands: readonly unknown[] = [],
+  ) {
+    super(signal, message, operation, operands, "DIVISION_BY_ZERO");
+  }
+}
+
+export function format_scaled(value: bigint, scale: bigint): string {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const fraction = (abs % scale)
+    .toString()
+    .padStart(scale.toString().length - 1, "0")
+    .replace(/0+$/, "");
+  const sign = negative ? "-" : "";
+  return fraction === ""
+    ? `${sign}${abs / scale}`
+    : `${sign}${abs / scale}.${fraction}`;
+}
@@ -0,0 +1,116 @@
+import type { FPContext, Signal } from "../FixedPrecision";
+import {
+  ConfigurationError,
+  DivisionByZeroError,
+  format_scaled,
+  SignalError,
+} from "./errors";
+
+export const SIGNALS: readonly Signal[] = [
+  "Clamped",
+  "DivisionByZero",
+  "Inexact",
+  "InvalidOperation",
+  "Overflow",
+  "Rounded",
+];
+
+export const DEFAULT_TRAPS: ReadonlySet<Signal> = new Set<Signal>([
+  "DivisionByZero",
+  "InvalidOperation",
+]);
+
+const SIGNAL_MESSAGES: Record<Signal, string> = {
+  Clamped: "Result clamped to bound",
+  DivisionByZero: "Division by zero",
+  Inexact: "Inexact result",
+  InvalidOperation: "Division undefined",
+  Overflow: "Result overflows the number range",
+  Rounded: "Result rounded",
+};
+
+export function assertTraps(traps: readonly Signal[], operation: string): void {
+  for (const trap of traps) {
+    if (!SIGNALS.includes(trap)) {
+      throw new ConfigurationError(
+        `Invalid signal. Must be one of ${SIGNALS.join(", ")}`,
+        operation,
+        [trap],
+      );
+    }
+  }
+}
+
+export function raise_signal(
+  ctx: FPContext,
+  signal: Signal,
+  operation: string,
+  operands: readonly unknown[],
+): void {
+  ctx.flags.add(signal);
+  if (!ctx.traps.has(signal)) {
+    return;
+  }
+
+  const formatted = operands.map((operand) =>
+    typeof operand === "bigint" ? format_scaled(operand, ctx.SCALE) : operand,
+  );
+  if (signal === "DivisionByZero" || signal === "InvalidOperation") {
+    throw new DivisionByZeroError(
+      signal,
+      SIGNAL_MESSAGES[signal],
+      operation,
+      formatted,
+    );
+  }
+  throw new SignalError(signal, SIGNAL_MESSAGES[signal], operation, formatted);
+}
+
+export function signal_rounded(
+  ctx: FPContext,
+  rounded: boolean,
+  inexact: boolean,
+  operation: string,
+  operands: readonly unknown[],
+): void {
+  if (rounded) raise_signal(ctx, "Rounded", operation, operands);
+  if (inexact) raise_signal(ctx, "Inexact", operation, operands);
+}
+
+export function signal_rounding(
+  ctx: FPContext,
+  value: bigint,
+  divisor: bigint,
+  operation: string,
+  operands: readonly unknown[],
+): void {
+  if (divisor === 1n || divisor === -1n) {
+    return;
+  }
+  raise_signal(ctx, "Rounded", operation, operands);
+  if (ctx.flags.has("Inexact") && !ctx.traps.has("Inexact")) {
+    return;
+  }
+  if (value % divisor !== 0n) {
+    raise_signal(ctx, "Inexact", operation, operands);
+  }
+}
+
+export function signal_division(
+  ctx: FPContext,
+  value: bigint,
+  divisor: bigint,
+  operation: string,
+  operands: readonly unknown[],
+): boolean {
+  if (divisor !== 0n) {
+    return false;
+  }
+  raise_signal(
+    ctx,
+    value === 0n ? "InvalidOperation" : "DivisionByZero",
+    operation,
+    operands,
+  );
+  return true;
+}
@@ -0,0 +1,90 @@
+import { exact_factor } from "../construction/exact_factor";
+import { assertRoundingMode } from "../core/context";
+import { DomainError } from "../core/errors";
+import type {
+  CashRoundingRule,
+  FPContext,
+  RoundingMode,
+} from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+
+const CASH_ROUNDING_RULES = new Map<string, CashRoundingRule>([
+  ["AUD", { increment: "0.05", roundingMode: 4 }],
+  ["CAD", { increment: "0.05", roundingMode: 4 }],
+  ["CHF", { increment: "0.05", roundingMode: 4 }],
+  ["CZK", { increment: "1", roundingMode: 4 }],
+  ["DKK", { increment: "0.5", roundingMode: 4 }],
+  ["HUF", { increment: "5", roundingMode: 4 }],
+  ["NOK", { increment: "1", roundingMode: 4 }],
+  ["NZD", { increment: "0.1", roundingMode: 4 }],
+  ["SEK", { increment: "1", roundingMode: 4 }],
+]);
+
+export type Cash_Rounding_Step = {
+  step: bigint;
+  roundingMode: RoundingMode;
+};
+
+export function find_cash_rounding(
+  currency: string,
+): CashRoundingRule | undefined {
+  return CASH_ROUNDING_RULES.get(currency.toUpperCase());
+}
+
+export function register_cash_rounding(
+  currency: string,
+  rule: CashRoundingRule | null,
+  operation: string,
+): void {
+  const code = currency.toUpperCase();
+  if (rule === null) {
+    CASH_ROUNDING_RULES.delete(code);
+    return;
+  }
+  if (exact_factor(rule.increment, operation).coefficient <= 0n) {
+    throw new DomainError("Increment must be positive", operation, [
+      code,
+      rule.increment.toString(),
+    ]);
+  }
+  if (rule.roundingMode !== undefined) {
+    assertRoundingMode(rule.roundingMode, operation);
+  }
+  CASH_ROUNDING_RULES.set(code, { ...rule });
+}
+
+export function cash_rounding_step(
+  ruleOrCurrency: string | CashRoundingRule,
+  ctx: FPContext,
+  operation: string,
+): Cash_Rounding_Step {
+  const rule =
+    typeof ruleOrCurrency === "string"
+      ? find_cash_rounding(ruleOrCurrency)
+      : ruleOrCurrency;
+  if (rule === undefined) {
+    throw new DomainError(
+      `No cash rounding rule for currency: ${ruleOrCurrency}`,
+      operation,
+      [ruleOrCurrency],
+    );
+  }
+
+  let { coefficient, scale } = exact_factor(rule.increment, operation);
+  while (scale > 0 && coefficient !== 0n && coefficient % 10n === 0n) {
+    coefficient /= 10n;
+    scale--;
+  }
+  const step = coefficient < 0n ? -coefficient : coefficient;
+  if (step === 0n || scale > ctx.places) {
+    throw new DomainError(
+      "Increment must be non-zero and fit the context precision",
+      operation,
+      [rule.increment.toString()],
+    );
+  }
+  return {
+    step: step * powerOfTen(ctx.places - scale),
+    roundingMode: rule.roundingMode ?? ctx.roundingMode,
+  };
+}
@@ -0,0 +1,24 @@
+import { DomainError } from "../core/errors";
+
+const CODES_BY_MINOR_UNITS: Record<number, string> = {
+  0: "BIF CLP DJF GNF ISK JPY KMF KRW PYG RWF UGX UYI VND VUV XAF XOF XPF",
+  2: "AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BMD BND BOB BOV BRL BSD BTN BWP BYN BZD CAD CDF CHE CHF CHW CNY COP COU CRC CUP CVE CZK DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD GTQ GYD HKD HNL HTG HUF IDR ILS INR IRR JMD KES KGS KHR KPW KYD KZT LAK LBP LKR LRD LSL MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD PAB PEN PGK PHP PKR PLN QAR RON RSD RUB SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP STN SVC SYP SZL THB TJS TMT TOP TRY TTD TWD TZS UAH USD USN UYU UZS VED VES WST XCD XCG YER ZAR ZMW ZWG",
+  3: "BHD IQD JOD KWD LYD OMR TND",
+  4: "CLF UYW",
+};
+
+export const CURRENCY_MINOR_UNITS: ReadonlyMap<string, number> = new Map(
+  Object.entries(CODES_BY_MINOR_UNITS).flatMap(([minor_units, codes]) =>
+    codes
+      .split(" ")
+      .map((code): [string, number] => [code, Number(minor_units)]),
+  ),
+);
+
+export function currency_minor_units(code: string, operation: string): number {
+  const minor_units = CURRENCY_MINOR_UNITS.get(code);
+  if (minor_units === undefined) {
+    throw new DomainError(`Unknown currency code: ${code}`, operation, [code]);
+  }
+  return minor_units;
+}
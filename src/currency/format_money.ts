@@ -0,0 +1,35 @@
+import type FixedPrecision from "../FixedPrecision";
+import type { MoneyFormatOptions } from "../Money";
+import { apply_intl_template } from "../string/internal/apply_intl_template";
+import { find_cash_rounding } from "./cash_rounding";
+
+const DEFAULT_LOCALE = "en-US";
+
+export function format_money(
+  amount: FixedPrecision,
+  currency: string,
+  minor_units: number,
+  options: MoneyFormatOptions,
+): string {
+  const minimum =
+    options.minimumFractionDigits ??
+    Math.min(minor_units, options.maximumFractionDigits ?? minor_units);
+  const parts = amount.formatToParts({
+    ...options,
+    cashRounding:
+      options.cashRounding === false ? undefined : find_cash_rounding(currency),
+    minimumFractionDigits: minimum,
+    maximumFractionDigits:
+      options.maximumFractionDigits ?? Math.max(minor_units, minimum),
+  });
+  return apply_intl_template(
+    parts,
+    options.locale ?? DEFAULT_LOCALE,
+    {
+      style: "currency",
+      currency,
+      currencyDisplay: options.currencyDisplay ?? "symbol",
+    },
+    "format",
+  );
+}
@@ -0,0 +1,8 @@
+export {
+  type Cash_Rounding_Step,
+  cash_rounding_step,
+  find_cash_rounding,
+  register_cash_rounding,
+} from "./cash_rounding";
+export { CURRENCY_MINOR_UNITS, currency_minor_units } from "./currencies";
+export { format_money } from "./format_money";
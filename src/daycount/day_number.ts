@@ -0,0 +1,5 @@
+import { civil_date, days_from_civil } from "./internal/civil_date";
+
+export function day_number(date: string | Date, operation: string): number {
+  return days_from_civil(civil_date(date, operation));
+}
@@ -0,0 +1,2 @@
+export { day_number } from "./day_number";
+export { year_fraction } from "./year_fraction";
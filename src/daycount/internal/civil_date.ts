@@ -0,0 +1,61 @@
+import { ParseError } from "../../core/errors";
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export type Civil_Date = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+export function is_leap_year(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function days_in_month(year: number, month: number): number {
+  if (month === 2) return is_leap_year(year) ? 29 : 28;
+  return month === 4 || month === 6 || month === 9 || month === 11 ? 30 : 31;
+}
+
+export function civil_date(date: string | Date, operation: string): Civil_Date {
+  if (date instanceof Date) {
+    if (Number.isNaN(date.getTime())) {
+      throw new ParseError("Invalid date", operation, [String(date)]);
+    }
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+    };
+  }
+
+  const match = ISO_DATE.exec(date);
+  if (match) {
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    const day = Number(match[3]);
+    if (
+      month >= 1 &&
+      month <= 12 &&
+      day >= 1 &&
+      day <= days_in_month(year, month)
+    ) {
+      return { year, month, day };
+    }
+  }
+  throw new ParseError(`Invalid date: ${date}`, operation, [date]);
+}
+
+export function days_from_civil({ year, month, day }: Civil_Date): number {
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const dayOfYear =
+    Math.floor((153 * (month + (month > 2 ? -3 : 9)) + 2) / 5) + day - 1;
+  const dayOfEra =
+    yearOfEra * 365 +
+    Math.floor(yearOfEra / 4) -
+    Math.floor(yearOfEra / 100) +
+    dayOfYear;
+  return era * 146097 + dayOfEra - 719468;
+}
@@ -0,0 +1,119 @@
+import { gcd } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { DayCountConvention, Ratio } from "../FixedPrecision";
+import {
+  type Civil_Date,
+  civil_date,
+  days_from_civil,
+  days_in_month,
+  is_leap_year,
+} from "./internal/civil_date";
+
+const CONVENTIONS: readonly DayCountConvention[] = [
+  "ACT/360",
+  "ACT/365F",
+  "ACT/ACT ISDA",
+  "30/360 US",
+  "30E/360",
+];
+
+function actual_actual_isda(start: Civil_Date, end: Civil_Date): Ratio {
+  let common = 0;
+  let leap = 0;
+  let from = days_from_civil(start);
+  for (let year = start.year; year <= end.year; year++) {
+    const to =
+      year === end.year
+        ? days_from_civil(end)
+        : days_from_civil({ year: year + 1, month: 1, day: 1 });
+    if (is_leap_year(year)) {
+      leap += to - from;
+    } else {
+      common += to - from;
+    }
+    from = to;
+  }
+  return {
+    numerator: BigInt(common * 366 + leap * 365),
+    denominator: 365n * 366n,
+  };
+}
+
+function is_last_of_february({ year, month, day }: Civil_Date): boolean {
+  return month === 2 && day === days_in_month(year, 2);
+}
+
+function thirty_360_days(
+  start: Civil_Date,
+  end: Civil_Date,
+  european: boolean,
+): number {
+  let d1 = start.day;
+  let d2 = end.day;
+  if (european) {
+    if (d1 === 31) d1 = 30;
+    if (d2 === 31) d2 = 30;
+  } else {
+    if (is_last_of_february(start)) {
+      if (is_last_of_february(end)) d2 = 30;
+      d1 = 30;
+    }
+    if (d2 === 31 && d1 >= 30) d2 = 30;
+    if (d1 === 31) d1 = 30;
+  }
+  return (
+    360 * (end.year - start.year) + 30 * (end.month - start.month) + d2 - d1
+  );
+}
+
+function ordered_fraction(
+  start: Civil_Date,
+  end: Civil_Date,
+  convention: DayCountConvention,
+): Ratio {
+  const days = BigInt(days_from_civil(end) - days_from_civil(start));
+  switch (convention) {
+    case "ACT/360":
+      return { numerator: days, denominator: 360n };
+    case "ACT/365F":
+      return { numerator: days, denominator: 365n };
+    case "ACT/ACT ISDA":
+      return actual_actual_isda(start, end);
+    case "30/360 US":
+      return {
+        numerator: BigInt(thirty_360_days(start, end, false)),
+        denominator: 360n,
+      };
+    case "30E/360":
+      return {
+        numerator: BigInt(thirty_360_days(start, end, true)),
+        denominator: 360n,
+      };
+  }
+}
+
+export function year_fraction(
+  start: string | Date,
+  end: string | Date,
+  convention: DayCountConvention,
+  operation: string,
+): Ratio {
+  if (!CONVENTIONS.includes(convention)) {
+    throw new DomainError(
+      `Invalid day count convention. Must be one of ${CONVENTIONS.join(", ")}`,
+      operation,
+      [convention],
+    );
+  }
+  const from = civil_date(start, operation);
+  const to = civil_date(end, operation);
+  const reversed = days_from_civil(to) < days_from_civil(from);
+  const { numerator, denominator } = reversed
+    ? ordered_fraction(to, from, convention)
+    : ordered_fraction(from, to, convention);
+  const common = gcd(numerator, denominator);
+  return {
+    numerator: (reversed ? -numerator : numerator) / common,
+    denominator: denominator / common,
+  };
+}
@@ -0,0 +1,15 @@
+import { exact_factor } from "../construction/exact_factor";
+import { DomainError } from "../core/errors";
+import type { ExchangeRate } from "../ExchangeRates";
+import type { Ratio } from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+
+export function exact_rate(rate: ExchangeRate, operation: string): Ratio {
+  const { coefficient, scale } = exact_factor(rate, operation);
+  if (coefficient <= 0n) {
+    throw new DomainError("Exchange rates must be positive", operation, [
+      rate.toString(),
+    ]);
+  }
+  return { numerator: coefficient, denominator: powerOfTen(scale) };
+}
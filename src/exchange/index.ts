@@ -0,0 +1,3 @@
+export { exact_rate } from "./exact_rate";
+export { parse_rates_json } from "./parse_rates_json";
+export { invert_ratio, multiply_ratios, reduce_ratio } from "./ratio_utils";
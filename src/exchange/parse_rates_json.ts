@@ -0,0 +1,44 @@
+import { ParseError } from "../core/errors";
+import type { ExchangeRate, ExchangeRatesJSON } from "../ExchangeRates";
+
+function is_object(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function is_rate_record(value: unknown): value is Record<string, ExchangeRate> {
+  return (
+    is_object(value) &&
+    Object.values(value).every(
+      (rate) => typeof rate === "string" || typeof rate === "number",
+    )
+  );
+}
+
+export function parse_rates_json(
+  json: string | ExchangeRatesJSON,
+  operation: string,
+): ExchangeRatesJSON {
+  let data: unknown = json;
+  if (typeof json === "string") {
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new ParseError("Invalid exchange rate JSON", operation, [json]);
+    }
+  }
+
+  if (is_object(data)) {
+    const { base, rates, pairs } = data;
+    if (
+      typeof base === "string" &&
+      is_rate_record(rates) &&
+      (pairs === undefined || is_rate_record(pairs))
+    ) {
+      return { base, rates, pairs };
+    }
+  }
+  throw new ParseError(
+    "Exchange rate JSON must have a base currency and a rates object",
+    operation,
+  );
+}
@@ -0,0 +1,18 @@
+import { gcd } from "../arithmetic";
+import type { Ratio } from "../FixedPrecision";
+
+export function reduce_ratio({ numerator, denominator }: Ratio): Ratio {
+  const common = gcd(numerator, denominator);
+  return { numerator: numerator / common, denominator: denominator / common };
+}
+
+export function invert_ratio({ numerator, denominator }: Ratio): Ratio {
+  return { numerator: denominator, denominator: numerator };
+}
+
+export function multiply_ratios(left: Ratio, right: Ratio): Ratio {
+  return reduce_ratio({
+    numerator: left.numerator * right.numerator,
+    denominator: left.denominator * right.denominator,
+  });
+}
@@ -0,0 +1,89 @@
+import { round_to_scale_value } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { type Finance_Work, from_finance_work } from "./internal/finance_work";
+import { pmt_value } from "./pmt";
+
+export type Amortization_Row = {
+  payment: bigint;
+  interest: bigint;
+  principal: bigint;
+  balance: bigint;
+};
+
+export function amortization_schedule(
+  principal: bigint,
+  rate: bigint,
+  periods: number,
+  interestOnlyPeriods: number,
+  extraPayment: (period: number) => bigint,
+  ctx: FPContext,
+  work: Finance_Work,
+): Amortization_Row[] {
+  if (!Number.isInteger(periods) || periods <= 0) {
+    throw new DomainError(
+      "Term must cover a positive whole number of payments",
+      "amortize",
+      [periods],
+    );
+  }
+  if (
+    !Number.isInteger(interestOnlyPeriods) ||
+    interestOnlyPeriods < 0 ||
+    interestOnlyPeriods >= periods
+  ) {
+    throw new DomainError(
+      "Interest-only periods must be a whole number below the number of payments",
+      "amortize",
+      [interestOnlyPeriods, periods],
+    );
+  }
+  if (principal < 0n) {
+    throw new DomainError("Principal must be non-negative", "amortize");
+  }
+
+  const rows: Amortization_Row[] = [];
+  let balance = principal;
+  let scheduled = 0n;
+  for (let period = 1; period <= periods && balance > 0n; period++) {
+    if (period === interestOnlyPeriods + 1) {
+      scheduled = from_finance_work(
+        -pmt_value(
+          rate,
+          BigInt(periods - interestOnlyPeriods) * work.scale,
+          balance * work.guard,
+          0n,
+          "end",
+          work,
+        ),
+        ctx,
+        work,
+      );
+    }
+
+    const extra = extraPayment(period);
+    if (extra < 0n) {
+      throw new DomainError("Extra payments must be non-negative", "amortize", [
+        period,
+      ]);
+    }
+    const interest = round_to_scale_value(
+      balance * rate,
+      work.scale,
+      ctx.roundingMode,
+    );
+    const due = period <= interestOnlyPeriods ? interest : scheduled;
+    let repaid = due - interest + extra;
+    if (repaid > balance || period === periods) {
+      repaid = balance;
+    }
+    balance -= repaid;
+    rows.push({
+      payment: interest + repaid,
+      interest,
+      principal: repaid,
+      balance,
+    });
+  }
+  return rows;
+}
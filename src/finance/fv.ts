@@ -0,0 +1,23 @@
+import type { PaymentTiming } from "../FixedPrecision";
+import { annuity_factors } from "./internal/annuity";
+import type { Finance_Work } from "./internal/finance_work";
+import { assert_rate, mul_work } from "./internal/work_arithmetic";
+
+export function fv_value(
+  rate: bigint,
+  nper: bigint,
+  pmt: bigint,
+  pv: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): bigint {
+  assert_rate(rate, work, "fv");
+  if (rate === 0n) {
+    return -(pv + mul_work(pmt, nper, work));
+  }
+  const { growth, annuity, due } = annuity_factors(rate, nper, when, work);
+  return -(
+    mul_work(pv, growth, work) +
+    mul_work(mul_work(pmt, due, work), annuity, work)
+  );
+}
@@ -0,0 +1,19 @@
+export {
+  type Amortization_Row,
+  amortization_schedule,
+} from "./amortization_schedule";
+export { fv_value } from "./fv";
+export {
+  type Finance_Work,
+  from_finance_work,
+  get_finance_work,
+} from "./internal/finance_work";
+export { ipmt_value } from "./ipmt";
+export { irr_value } from "./irr";
+export { nper_value } from "./nper";
+export { npv_value } from "./npv";
+export { pmt_value } from "./pmt";
+export { ppmt_value } from "./ppmt";
+export { pv_value } from "./pv";
+export { rate_value } from "./rate";
+export { xirr_value } from "./xirr";
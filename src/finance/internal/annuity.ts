@@ -0,0 +1,23 @@
+import type { PaymentTiming } from "../../FixedPrecision";
+import type { Finance_Work } from "./finance_work";
+import { div_work, pow_work } from "./work_arithmetic";
+
+export type Annuity = {
+  growth: bigint;
+  annuity: bigint;
+  due: bigint;
+};
+
+export function annuity_factors(
+  rate: bigint,
+  nper: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): Annuity {
+  const growth = pow_work(work.scale + rate, nper, work);
+  return {
+    growth,
+    annuity: div_work(growth - work.scale, rate, work),
+    due: when === "begin" ? work.scale + rate : work.scale,
+  };
+}
@@ -0,0 +1,10 @@
+import { DomainError } from "../../core/errors";
+
+export function assert_cash_flows(flows: bigint[], operation: string): void {
+  if (!flows.some((flow) => flow > 0n) || !flows.some((flow) => flow < 0n)) {
+    throw new DomainError(
+      "Cash flows must include a positive and a negative value",
+      operation,
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { round_to_scale_value } from "../../arithmetic";
+import { withPlaces } from "../../core/context";
+import type { FPContext, Signal } from "../../FixedPrecision";
+import { powerOfTen } from "../../utils";
+
+export const FINANCE_GUARD_DIGITS = 12;
+
+export type Finance_Work = {
+  ctx: FPContext;
+  scale: bigint;
+  guard: bigint;
+  epsilon: bigint;
+};
+
+export function get_finance_work(ctx: FPContext): Finance_Work {
+  const work: FPContext = {
+    ...withPlaces(ctx, ctx.places + FINANCE_GUARD_DIGITS),
+    traps: new Set<Signal>(),
+    flags: new Set<Signal>(),
+  };
+  const guard = powerOfTen(FINANCE_GUARD_DIGITS);
+  return { ctx: work, scale: work.SCALE, guard, epsilon: guard / 1000n };
+}
+
+export function from_finance_work(
+  value: bigint,
+  ctx: FPContext,
+  work: Finance_Work,
+): bigint {
+  return round_to_scale_value(value, work.guard, ctx.roundingMode);
+}
@@ -0,0 +1,32 @@
+import { DomainError } from "../../core/errors";
+import type { Finance_Work } from "./finance_work";
+import { assert_rate, div_work } from "./work_arithmetic";
+
+const MAX_ITERATIONS = 100;
+
+export function solve_rate(
+  evaluate: (rate: bigint) => [value: bigint, slope: bigint],
+  guess: bigint,
+  work: Finance_Work,
+  operation: string,
+): bigint {
+  assert_rate(guess, work, operation);
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const [value, slope] = evaluate(rate);
+    if (value === 0n) return rate;
+    if (slope === 0n) break;
+
+    let next = rate - div_work(value, slope, work);
+    if (next <= -work.scale) {
+      next = (rate - work.scale) / 2n;
+    }
+    const step = next > rate ? next - rate : rate - next;
+    if (step <= work.epsilon) return next;
+    rate = next;
+  }
+  throw new DomainError(
+    "Rate did not converge; try a different guess",
+    operation,
+  );
+}
@@ -0,0 +1,61 @@
+import { exp_value, natural_log_value } from "../../arithmetic";
+import { DomainError, format_scaled } from "../../core/errors";
+import type { Finance_Work } from "./finance_work";
+
+export function mul_work(a: bigint, b: bigint, work: Finance_Work): bigint {
+  return (a * b) / work.scale;
+}
+
+export function div_work(a: bigint, b: bigint, work: Finance_Work): bigint {
+  return (a * work.scale) / b;
+}
+
+export function ln_work(value: bigint, work: Finance_Work): bigint {
+  return natural_log_value(value, work.ctx);
+}
+
+export function pow_work(
+  base: bigint,
+  exponent: bigint,
+  work: Finance_Work,
+): bigint {
+  if (exponent % work.scale !== 0n) {
+    return exp_value(mul_work(exponent, ln_work(base, work), work), work.ctx);
+  }
+
+  let n = exponent / work.scale;
+  const negative = n < 0n;
+  if (negative) n = -n;
+  let result = work.scale;
+  let factor = base;
+  while (n > 0n) {
+    if (n & 1n) result = mul_work(result, factor, work);
+    factor = mul_work(factor, factor, work);
+    n >>= 1n;
+  }
+  return negative ? div_work(work.scale, result, work) : result;
+}
+
+export function assert_rate(
+  rate: bigint,
+  work: Finance_Work,
+  operation: string,
+): void {
+  if (rate <= -work.scale) {
+    throw new DomainError("Rate must be greater than -1", operation, [
+      format_scaled(rate, work.scale),
+    ]);
+  }
+}
+
+export function assert_periods(
+  nper: bigint,
+  work: Finance_Work,
+  operation: string,
+): void {
+  if (nper === 0n) {
+    throw new DomainError("Number of periods must be non-zero", operation, [
+      format_scaled(nper, work.scale),
+    ]);
+  }
+}
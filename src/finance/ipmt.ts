@@ -0,0 +1,32 @@
+import { DomainError, format_scaled } from "../core/errors";
+import type { PaymentTiming } from "../FixedPrecision";
+import { fv_value } from "./fv";
+import type { Finance_Work } from "./internal/finance_work";
+import { div_work, mul_work } from "./internal/work_arithmetic";
+import { pmt_value } from "./pmt";
+
+export function ipmt_value(
+  rate: bigint,
+  per: bigint,
+  nper: bigint,
+  pv: bigint,
+  fv: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): bigint {
+  if (per % work.scale !== 0n || per < work.scale || per > nper) {
+    throw new DomainError(
+      "Period must be an integer between 1 and nper",
+      "ipmt",
+      [format_scaled(per, work.scale), format_scaled(nper, work.scale)],
+    );
+  }
+  const payment = pmt_value(rate, nper, pv, fv, when, work);
+  if (when === "begin" && per === work.scale) return 0n;
+
+  const balance = fv_value(rate, per - work.scale, payment, pv, when, work);
+  const interest = mul_work(balance, rate, work);
+  return when === "begin"
+    ? div_work(interest, work.scale + rate, work)
+    : interest;
+}
@@ -0,0 +1,30 @@
+import { assert_cash_flows } from "./internal/assert_cash_flows";
+import type { Finance_Work } from "./internal/finance_work";
+import { solve_rate } from "./internal/solve_rate";
+import { div_work, mul_work } from "./internal/work_arithmetic";
+
+export function irr_value(
+  flows: bigint[],
+  guess: bigint,
+  work: Finance_Work,
+): bigint {
+  assert_cash_flows(flows, "irr");
+  return solve_rate(
+    (rate) => {
+      const discount = div_work(work.scale, work.scale + rate, work);
+      let factor = work.scale;
+      let value = 0n;
+      let slope = 0n;
+      flows.forEach((flow, period) => {
+        const present = mul_work(flow, factor, work);
+        value += present;
+        slope -= BigInt(period) * mul_work(present, discount, work);
+        factor = mul_work(factor, discount, work);
+      });
+      return [value, slope];
+    },
+    guess,
+    work,
+    "irr",
+  );
+}
@@ -0,0 +1,54 @@
+import { DomainError, format_scaled } from "../core/errors";
+import type { PaymentTiming } from "../FixedPrecision";
+import type { Finance_Work } from "./internal/finance_work";
+import {
+  assert_rate,
+  div_work,
+  ln_work,
+  mul_work,
+} from "./internal/work_arithmetic";
+
+export function nper_value(
+  rate: bigint,
+  pmt: bigint,
+  pv: bigint,
+  fv: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): bigint {
+  assert_rate(rate, work, "nper");
+  const operands = [pmt, pv, fv].map((value) =>
+    format_scaled(value, work.scale),
+  );
+  if (rate === 0n) {
+    if (pmt === 0n) {
+      throw new DomainError(
+        "Payment must be non-zero when the rate is zero",
+        "nper",
+        operands,
+      );
+    }
+    return -div_work(pv + fv, pmt, work);
+  }
+
+  const due = when === "begin" ? work.scale + rate : work.scale;
+  const annuity = div_work(mul_work(pmt, due, work), rate, work);
+  const numerator = annuity - fv;
+  const denominator = annuity + pv;
+  if (
+    denominator === 0n ||
+    numerator === 0n ||
+    numerator < 0n !== denominator < 0n
+  ) {
+    throw new DomainError(
+      "No number of periods settles these cash flows",
+      "nper",
+      operands,
+    );
+  }
+  return div_work(
+    ln_work(div_work(numerator, denominator, work), work),
+    ln_work(work.scale + rate, work),
+    work,
+  );
+}
@@ -0,0 +1,18 @@
+import type { Finance_Work } from "./internal/finance_work";
+import { assert_rate, div_work, mul_work } from "./internal/work_arithmetic";
+
+export function npv_value(
+  rate: bigint,
+  flows: bigint[],
+  work: Finance_Work,
+): bigint {
+  assert_rate(rate, work, "npv");
+  const discount = div_work(work.scale, work.scale + rate, work);
+  let factor = discount;
+  let total = 0n;
+  for (const flow of flows) {
+    total += mul_work(flow, factor, work);
+    factor = mul_work(factor, discount, work);
+  }
+  return total;
+}
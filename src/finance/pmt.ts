@@ -0,0 +1,30 @@
+import type { PaymentTiming } from "../FixedPrecision";
+import { annuity_factors } from "./internal/annuity";
+import type { Finance_Work } from "./internal/finance_work";
+import {
+  assert_periods,
+  assert_rate,
+  div_work,
+  mul_work,
+} from "./internal/work_arithmetic";
+
+export function pmt_value(
+  rate: bigint,
+  nper: bigint,
+  pv: bigint,
+  fv: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): bigint {
+  assert_rate(rate, work, "pmt");
+  assert_periods(nper, work, "pmt");
+  if (rate === 0n) {
+    return -div_work(pv + fv, nper, work);
+  }
+  const { growth, annuity, due } = annuity_factors(rate, nper, when, work);
+  return -div_work(
+    mul_work(pv, growth, work) + fv,
+    mul_work(due, annuity, work),
+    work,
+  );
+}
@@ -0,0 +1,19 @@
+import type { PaymentTiming } from "../FixedPrecision";
+import type { Finance_Work } from "./internal/finance_work";
+import { ipmt_value } from "./ipmt";
+import { pmt_value } from "./pmt";
+
+export function ppmt_value(
+  rate: bigint,
+  per: bigint,
+  nper: bigint,
+  pv: bigint,
+  fv: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): bigint {
+  return (
+    pmt_value(rate, nper, pv, fv, when, work) -
+    ipmt_value(rate, per, nper, pv, fv, when, work)
+  );
+}
@@ -0,0 +1,24 @@
+import type { PaymentTiming } from "../FixedPrecision";
+import { annuity_factors } from "./internal/annuity";
+import type { Finance_Work } from "./internal/finance_work";
+import { assert_rate, div_work, mul_work } from "./internal/work_arithmetic";
+
+export function pv_value(
+  rate: bigint,
+  nper: bigint,
+  pmt: bigint,
+  fv: bigint,
+  when: PaymentTiming,
+  work: Finance_Work,
+): bigint {
+  assert_rate(rate, work, "pv");
+  if (rate === 0n) {
+    return -(fv + mul_work(pmt, nper, work));
+  }
+  const { growth, annuity, due } = annuity_factors(rate, nper, when, work);
+  return -div_work(
+    fv + mul_work(mul_work(pmt, due, work), annuity, work),
+    growth,
+    work,
+  );
+}
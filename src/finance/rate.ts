@@ -0,0 +1,62 @@
+import type { PaymentTiming } from "../FixedPrecision";
+import type { Finance_Work } from "./internal/finance_work";
+import { solve_rate } from "./internal/solve_rate";
+import {
+  assert_periods,
+  div_work,
+  mul_work,
+  pow_work,
+} from "./internal/work_arithmetic";
+
+export function rate_value(
+  nper: bigint,
+  pmt: bigint,
+  pv: bigint,
+  fv: bigint,
+  when: PaymentTiming,
+  guess: bigint,
+  work: Finance_Work,
+): bigint {
+  assert_periods(nper, work, "rate");
+  const begin = when === "begin";
+  return solve_rate(
+    (rate) => {
+      if (rate === 0n) {
+        const slope =
+          mul_work(pv, nper, work) +
+          mul_work(
+            pmt,
+            mul_work(nper, nper - work.scale, work) / 2n + (begin ? nper : 0n),
+            work,
+          );
+        return [pv + mul_work(pmt, nper, work) + fv, slope];
+      }
+
+      const growth = pow_work(work.scale + rate, nper, work);
+      const growthSlope = div_work(
+        mul_work(nper, growth, work),
+        work.scale + rate,
+        work,
+      );
+      const annuity = div_work(growth - work.scale, rate, work);
+      const annuitySlope = div_work(growthSlope - annuity, rate, work);
+      const due = begin ? work.scale + rate : work.scale;
+
+      const value =
+        mul_work(pv, growth, work) +
+        mul_work(mul_work(pmt, due, work), annuity, work) +
+        fv;
+      const slope =
+        mul_work(pv, growthSlope, work) +
+        mul_work(
+          pmt,
+          mul_work(due, annuitySlope, work) + (begin ? annuity : 0n),
+          work,
+        );
+      return [value, slope];
+    },
+    guess,
+    work,
+    "rate",
+  );
+}
@@ -0,0 +1,40 @@
+import { exp_value } from "../arithmetic";
+import { assert_cash_flows } from "./internal/assert_cash_flows";
+import type { Finance_Work } from "./internal/finance_work";
+import { solve_rate } from "./internal/solve_rate";
+import { div_work, ln_work, mul_work } from "./internal/work_arithmetic";
+
+const DAYS_PER_YEAR = 365n;
+
+export function xirr_value(
+  flows: bigint[],
+  days: number[],
+  guess: bigint,
+  work: Finance_Work,
+): bigint {
+  assert_cash_flows(flows, "xirr");
+  const start = days[0];
+  const elapsed = days.map((day) => BigInt(day - start));
+  return solve_rate(
+    (rate) => {
+      const growth = work.scale + rate;
+      const log = ln_work(growth, work);
+      let value = 0n;
+      let slope = 0n;
+      flows.forEach((flow, index) => {
+        const exponent = (-elapsed[index] * log) / DAYS_PER_YEAR;
+        const present = mul_work(flow, exp_value(exponent, work.ctx), work);
+        value += present;
+        slope -= div_work(
+          (present * elapsed[index]) / DAYS_PER_YEAR,
+          growth,
+          work,
+        );
+      });
+      return [value, slope];
+    },
+    guess,
+    work,
+    "xirr",
+  );
+}
@@ -1,3 +1,4 @@
+import { DomainError } from "../../core/errors";
 import { closer_fraction } from "./closer_fraction";
 
 export function limit_denominator(
@@ -6,7 +7,9 @@ export function limit_denominator(
   max_denominator: bigint,
 ): { numerator: bigint; denominator: bigint } {
   if (max_denominator < 1n) {
-    throw new Error("maxDen must be a positive integer");
+    throw new DomainError("maxDen must be a positive integer", "fraction", [
+      max_denominator.toString(),
+    ]);
   }
 
   if (denominator <= max_denominator) {
@@ -0,0 +1,195 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError, PrecisionMismatchError } from "../core/errors";
+import FixedPrecision, {
+  type FixedPrecisionValue,
+  type FPContext,
+} from "../FixedPrecision";
+import { bareiss_determinant } from "./bareiss_determinant";
+import { assert_square } from "./internal/assert_square";
+import { matrix_inverse } from "./matrix_inverse";
+import { matrix_multiply } from "./matrix_multiply";
+import { transpose } from "./transpose";
+
+export default class Matrix {
+  private readonly ctx: FPContext;
+  private readonly cells: bigint[][];
+
+  constructor(rows: FixedPrecisionValue[][], ctx: FPContext) {
+    const columns = rows[0]?.length ?? 0;
+    if (columns === 0) {
+      throw new DomainError(
+        "Matrix must have at least one row and column",
+        "matrix",
+      );
+    }
+    if (rows.some((row) => row.length !== columns)) {
+      throw new DomainError(
+        "Matrix rows must all have the same length",
+        "matrix",
+        rows.map((row) => row.length),
+      );
+    }
+    this.ctx = ctx;
+    this.cells = rows.map((row) =>
+      row.map((value) =>
+        typeof value === "bigint"
+          ? value
+          : new FixedPrecision(value, ctx).raw(),
+      ),
+    );
+  }
+
+  public static from(rows: FixedPrecisionValue[][]): Matrix {
+    return FixedPrecision.matrix(rows);
+  }
+
+  public static isMatrix(value: unknown): value is Matrix {
+    return value instanceof Matrix;
+  }
+
+  private with(cells: bigint[][]): Matrix {
+    return new Matrix(cells, this.ctx);
+  }
+
+  private assertCompatible(other: Matrix, operation: string): void {
+    if (other.ctx.places !== this.ctx.places) {
+      throw new PrecisionMismatchError(
+        "Cannot operate on different precisions",
+        operation,
+        [this.ctx.places, other.ctx.places],
+      );
+    }
+  }
+
+  private assertSameShape(other: Matrix, operation: string): void {
+    this.assertCompatible(other, operation);
+    if (other.rows() !== this.rows() || other.columns() !== this.columns()) {
+      throw new DomainError(
+        "Matrices must have the same dimensions",
+        operation,
+        [this.dimensions(), other.dimensions()],
+      );
+    }
+  }
+
+  private dimensions(): string {
+    return `${this.rows()}x${this.columns()}`;
+  }
+
+  public rows(): number {
+    return this.cells.length;
+  }
+
+  public columns(): number {
+    return this.cells[0].length;
+  }
+
+  public get(row: number, column: number): FixedPrecision {
+    const value = this.cells[row]?.[column];
+    if (value === undefined) {
+      throw new DomainError("Matrix index out of range", "get", [row, column]);
+    }
+    return new FixedPrecision(value, this.ctx);
+  }
+
+  public add(other: Matrix): Matrix {
+    this.assertSameShape(other, "add");
+    return this.with(
+      this.cells.map((row, i) =>
+        row.map((value, j) => value + other.cells[i][j]),
+      ),
+    );
+  }
+
+  public sub(other: Matrix): Matrix {
+    this.assertSameShape(other, "sub");
+    return this.with(
+      this.cells.map((row, i) =>
+        row.map((value, j) => value - other.cells[i][j]),
+      ),
+    );
+  }
+
+  public mul(other: Matrix | FixedPrecisionValue): Matrix {
+    if (other instanceof Matrix) {
+      this.assertCompatible(other, "mul");
+      return this.with(
+        matrix_multiply(this.cells, other.cells, this.ctx, "mul"),
+      );
+    }
+
+    const factor = new FixedPrecision(other, this.ctx).raw();
+    return this.with(
+      this.cells.map((row) =>
+        row.map((value) =>
+          divide_with_signals(
+            value * factor,
+            this.ctx.SCALE,
+            this.ctx,
+            this.ctx.roundingMode,
+            "mul",
+            [],
+          ),
+        ),
+      ),
+    );
+  }
+
+  public transpose(): Matrix {
+    return this.with(transpose(this.cells));
+  }
+
+  public trace(): FixedPrecision {
+    assert_square(this.cells, "trace");
+    return new FixedPrecision(
+      this.cells.reduce((total, row, i) => total + row[i], 0n),
+      this.ctx,
+    );
+  }
+
+  public determinant(): FixedPrecision {
+    const determinant = bareiss_determinant(this.cells, "determinant");
+    return new FixedPrecision(
+      divide_with_signals(
+        determinant,
+        this.ctx.SCALE ** BigInt(this.rows() - 1),
+        this.ctx,
+        this.ctx.roundingMode,
+        "determinant",
+        [],
+      ),
+      this.ctx,
+    );
+  }
+
+  public inverse(): Matrix {
+    return this.with(matrix_inverse(this.cells, this.ctx, "inverse"));
+  }
+
+  public eq(other: Matrix): boolean {
+    this.assertCompatible(other, "eq");
+    return (
+      other.rows() === this.rows() &&
+      other.columns() === this.columns() &&
+      this.cells.every((row, i) =>
+        row.every((value, j) => value === other.cells[i][j]),
+      )
+    );
+  }
+
+  public toArray(): FixedPrecision[][] {
+    return this.cells.map((row) =>
+      row.map((value) => new FixedPrecision(value, this.ctx)),
+    );
+  }
+
+  public toString(): string {
+    return `[${this.toJSON()
+      .map((row) => `[${row.join(", ")}]`)
+      .join(", ")}]`;
+  }
+
+  public toJSON(): string[][] {
+    return this.toArray().map((row) => row.map((value) => value.toString()));
+  }
+}
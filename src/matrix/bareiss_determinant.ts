@@ -0,0 +1,27 @@
+import { assert_square } from "./internal/assert_square";
+
+export function bareiss_determinant(
+  cells: readonly bigint[][],
+  operation: string,
+): bigint {
+  assert_square(cells, operation);
+  const m = cells.map((row) => [...row]);
+  const n = m.length;
+  let sign = 1n;
+  let previous = 1n;
+  for (let k = 0; k < n - 1; k++) {
+    if (m[k][k] === 0n) {
+      const swap = m.findIndex((row, i) => i > k && row[k] !== 0n);
+      if (swap === -1) return 0n;
+      [m[k], m[swap]] = [m[swap], m[k]];
+      sign = -sign;
+    }
+    for (let i = k + 1; i < n; i++) {
+      for (let j = k + 1; j < n; j++) {
+        m[i][j] = (m[k][k] * m[i][j] - m[i][k] * m[k][j]) / previous;
+      }
+    }
+    previous = m[k][k];
+  }
+  return sign * m[n - 1][n - 1];
+}
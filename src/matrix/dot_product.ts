@@ -1,6 +1,15 @@
-export function dot_product(a: bigint[], b: bigint[], scale: bigint): bigint {
+import { DomainError } from "../core/errors";
+
+export function dot_product(
+  a: readonly bigint[],
+  b: readonly bigint[],
+  scale: bigint,
+): bigint {
   if (a.length !== b.length) {
-    throw new Error("Vectors must have the same length");
+    throw new DomainError("Vectors must have the same length", "dot", [
+      a.length,
+      b.length,
+    ]);
   }
   if (a.length === 0) {
     return 0n;
@@ -1,2 +1,6 @@
+export { bareiss_determinant } from "./bareiss_determinant";
 export { cross_product } from "./cross_product";
 export { dot_product } from "./dot_product";
+export { matrix_inverse } from "./matrix_inverse";
+export { matrix_multiply } from "./matrix_multiply";
+export { transpose } from "./transpose";
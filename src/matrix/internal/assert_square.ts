@@ -0,0 +1,13 @@
+import { DomainError } from "../../core/errors";
+
+export function assert_square(
+  cells: readonly bigint[][],
+  operation: string,
+): void {
+  if (cells.length !== cells[0].length) {
+    throw new DomainError("Matrix must be square", operation, [
+      cells.length,
+      cells[0].length,
+    ]);
+  }
+}
@@ -0,0 +1,53 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { assert_square } from "./internal/assert_square";
+
+export function matrix_inverse(
+  cells: readonly bigint[][],
+  ctx: FPContext,
+  operation: string,
+): bigint[][] {
+  assert_square(cells, operation);
+  const n = cells.length;
+  const m = cells.map((row, i) => [
+    ...row,
+    ...row.map((_, j) => (i === j ? 1n : 0n)),
+  ]);
+
+  let previous = 1n;
+  for (let k = 0; k < n; k++) {
+    if (m[k][k] === 0n) {
+      const swap = m.findIndex((row, i) => i > k && row[k] !== 0n);
+      if (swap === -1) {
+        throw new DomainError("Matrix is singular", operation);
+      }
+      [m[k], m[swap]] = [m[swap], m[k]];
+    }
+    for (let i = 0; i < n; i++) {
+      if (i === k) continue;
+      for (let j = 0; j < 2 * n; j++) {
+        if (j === k) continue;
+        m[i][j] = (m[k][k] * m[i][j] - m[i][k] * m[k][j]) / previous;
+      }
+      m[i][k] = 0n;
+    }
+    previous = m[k][k];
+  }
+
+  const scale = ctx.SCALE * ctx.SCALE;
+  return m.map((row) =>
+    row
+      .slice(n)
+      .map((value) =>
+        divide_with_signals(
+          value * scale,
+          previous,
+          ctx,
+          ctx.roundingMode,
+          operation,
+          [],
+        ),
+      ),
+  );
+}
@@ -0,0 +1,34 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+
+export function matrix_multiply(
+  a: readonly bigint[][],
+  b: readonly bigint[][],
+  ctx: FPContext,
+  operation: string,
+): bigint[][] {
+  if (a[0].length !== b.length) {
+    throw new DomainError(
+      "Matrix dimensions do not match for multiplication",
+      operation,
+      [`${a.length}x${a[0].length}`, `${b.length}x${b[0].length}`],
+    );
+  }
+  return a.map((row) =>
+    b[0].map((_, column) => {
+      let total = 0n;
+      for (let k = 0; k < row.length; k++) {
+        total += row[k] * b[k][column];
+      }
+      return divide_with_signals(
+        total,
+        ctx.SCALE,
+        ctx,
+        ctx.roundingMode,
+        operation,
+        [],
+      );
+    }),
+  );
+}
@@ -0,0 +1,3 @@
+export function transpose(cells: readonly bigint[][]): bigint[][] {
+  return cells[0].map((_, column) => cells.map((row) => row[column]));
+}
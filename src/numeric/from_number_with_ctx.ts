@@ -1,19 +1,43 @@
-import type { FPContext } from "../FixedPrecision";
+import { ParseError } from "../core/errors";
+import type { FPContext, NumberConversion } from "../FixedPrecision";
+import { from_string_with_ctx, scale_decimal_digits } from "../string";
+import { decompose_double } from "./internal/decompose_double";
 
-export function from_number_with_ctx(value: number, ctx: FPContext): bigint {
-  if (Number.isNaN(value) || !Number.isFinite(value)) {
-    throw new Error("Invalid number: value must be a finite number.");
+function from_exact_binary(value: number, ctx: FPContext): bigint {
+  const { negative, mantissa, exponent } = decompose_double(value);
+  if (mantissa === 0n) {
+    return 0n;
+  }
+
+  if (exponent >= 0) {
+    const digits = (mantissa << BigInt(exponent)).toString();
+    return scale_decimal_digits(digits, negative, ctx.places, ctx, value);
   }
-  const scaled = value * ctx.SCALENUMBER;
-  if (Math.abs(scaled) > Number.MAX_SAFE_INTEGER) {
-    if (Number.isInteger(value)) {
-      return BigInt(value) * ctx.SCALE;
-    }
 
-    const num = Math.trunc(value);
-    const n_num = Math.abs(num - value);
-    const n_scaled = BigInt(Math.trunc(n_num * ctx.SCALENUMBER));
-    return BigInt(num) * ctx.SCALE + n_scaled;
+  const digits = (mantissa * 5n ** BigInt(-exponent)).toString();
+  return scale_decimal_digits(
+    digits,
+    negative,
+    ctx.places + exponent,
+    ctx,
+    value,
+  );
+}
+
+export function from_number_with_ctx(
+  value: number,
+  ctx: FPContext,
+  conversion: NumberConversion = ctx.numberConversion,
+): bigint {
+  if (Number.isNaN(value) || !Number.isFinite(value)) {
+    throw new ParseError(
+      "Invalid number: value must be a finite number.",
+      "parse",
+      [value],
+    );
+  }
+  if (conversion === "exact") {
+    return from_exact_binary(value, ctx);
   }
-  return BigInt(Math.trunc(scaled));
+  return from_string_with_ctx(String(value), ctx);
 }
@@ -0,0 +1,22 @@
+export type Decomposed_Double = {
+  negative: boolean;
+  mantissa: bigint;
+  exponent: number;
+};
+
+const EXPONENT_BIAS = 1075;
+const HIDDEN_BIT = 1n << 52n;
+
+export function decompose_double(value: number): Decomposed_Double {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  const bits = view.getBigUint64(0);
+  const biased = Number((bits >> 52n) & 0x7ffn);
+  const fraction = bits & (HIDDEN_BIT - 1n);
+
+  return {
+    negative: bits >> 63n === 1n,
+    mantissa: biased === 0 ? fraction : fraction | HIDDEN_BIT,
+    exponent: (biased === 0 ? 1 : biased) - EXPONENT_BIAS,
+  };
+}
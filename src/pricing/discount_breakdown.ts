@@ -0,0 +1,42 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext, RateValue } from "../FixedPrecision";
+import { exact_rates } from "./internal/exact_rates";
+
+export type Discount_Breakdown = {
+  discounts: bigint[];
+  net: bigint;
+};
+
+export function discount_breakdown(
+  amount: bigint,
+  rates: readonly RateValue[],
+  ctx: FPContext,
+): Discount_Breakdown {
+  const { coefficients, unit } = exact_rates(rates, "discount");
+  if (
+    coefficients.some((coefficient) => coefficient < 0n || coefficient > unit)
+  ) {
+    throw new DomainError(
+      "Discount rates must be between 0 and 1",
+      "discount",
+      rates.map(String),
+    );
+  }
+
+  const discounts: bigint[] = [];
+  let net = amount;
+  for (const coefficient of coefficients) {
+    const discount = divide_with_signals(
+      net * coefficient,
+      unit,
+      ctx,
+      ctx.roundingMode,
+      "discount",
+      [net, coefficient],
+    );
+    discounts.push(discount);
+    net -= discount;
+  }
+  return { discounts, net };
+}
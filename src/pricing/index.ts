@@ -0,0 +1,7 @@
+export {
+  type Discount_Breakdown,
+  discount_breakdown,
+} from "./discount_breakdown";
+export { type Invoice_Tax, invoice_tax } from "./invoice_tax";
+export { add_percentage_value, remove_percentage_value } from "./percentage";
+export { type Tax_Breakdown, tax_breakdown } from "./tax_breakdown";
@@ -0,0 +1,22 @@
+import { exact_factor } from "../../construction/exact_factor";
+import type { RateValue } from "../../FixedPrecision";
+import { powerOfTen } from "../../utils";
+
+export type Exact_Rates = {
+  coefficients: bigint[];
+  unit: bigint;
+};
+
+export function exact_rates(
+  rates: readonly RateValue[],
+  operation: string,
+): Exact_Rates {
+  const factors = rates.map((rate) => exact_factor(rate, operation));
+  const scale = Math.max(0, ...factors.map((factor) => factor.scale));
+  return {
+    coefficients: factors.map(
+      (factor) => factor.coefficient * powerOfTen(scale - factor.scale),
+    ),
+    unit: powerOfTen(scale),
+  };
+}
@@ -0,0 +1,77 @@
+import { allocate_units } from "../allocation";
+import { DomainError } from "../core/errors";
+import type { FPContext, RateValue, TaxRounding } from "../FixedPrecision";
+import { type Tax_Breakdown, tax_breakdown } from "./tax_breakdown";
+
+export type Invoice_Tax = {
+  lines: Tax_Breakdown[];
+  total: Tax_Breakdown;
+};
+
+function sum_breakdowns(lines: Tax_Breakdown[], count: number): Tax_Breakdown {
+  return lines.reduce(
+    (total, line) => ({
+      net: total.net + line.net,
+      taxes: total.taxes.map((tax, index) => tax + line.taxes[index]),
+      gross: total.gross + line.gross,
+    }),
+    { net: 0n, taxes: Array.from({ length: count }, () => 0n), gross: 0n },
+  );
+}
+
+export function invoice_tax(
+  lines: bigint[],
+  rates: readonly RateValue[],
+  inclusive: boolean,
+  compound: boolean,
+  rounding: TaxRounding,
+  ctx: FPContext,
+  operation: string,
+): Invoice_Tax {
+  if (rounding === "line") {
+    const breakdowns = lines.map((line) =>
+      tax_breakdown(line, rates, inclusive, compound, ctx, operation),
+    );
+    return {
+      lines: breakdowns,
+      total: sum_breakdowns(breakdowns, rates.length),
+    };
+  }
+  if (rounding !== "invoice") {
+    throw new DomainError(
+      "Invalid tax rounding. Must be line or invoice",
+      operation,
+      [rounding],
+    );
+  }
+  if (lines.some((line) => line < 0n)) {
+    throw new DomainError(
+      "Invoice rounding needs non-negative line amounts",
+      operation,
+      lines,
+    );
+  }
+
+  const amount = lines.reduce((sum, line) => sum + line, 0n);
+  const total = tax_breakdown(
+    amount,
+    rates,
+    inclusive,
+    compound,
+    ctx,
+    operation,
+  );
+  const shares = total.taxes.map((tax) =>
+    amount === 0n
+      ? lines.map(() => 0n)
+      : allocate_units(tax, lines, "largestRemainder", operation),
+  );
+  const breakdowns = lines.map((line, index) => {
+    const taxes = shares.map((share) => share[index]);
+    const tax = taxes.reduce((sum, part) => sum + part, 0n);
+    return inclusive
+      ? { net: line - tax, taxes, gross: line }
+      : { net: line, taxes, gross: line + tax };
+  });
+  return { lines: breakdowns, total };
+}
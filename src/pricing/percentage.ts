@@ -0,0 +1,46 @@
+import { divide_with_signals } from "../arithmetic";
+import { exact_factor } from "../construction/exact_factor";
+import { DomainError } from "../core/errors";
+import type { FPContext, RateValue, RoundingMode } from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+
+export function add_percentage_value(
+  value: bigint,
+  rate: RateValue,
+  ctx: FPContext,
+  rm: RoundingMode,
+): bigint {
+  const { coefficient, scale } = exact_factor(rate, "addPercentage");
+  const unit = powerOfTen(scale);
+  return divide_with_signals(
+    value * (unit + coefficient),
+    unit,
+    ctx,
+    rm,
+    "addPercentage",
+    [value, rate.toString()],
+  );
+}
+
+export function remove_percentage_value(
+  value: bigint,
+  rate: RateValue,
+  ctx: FPContext,
+  rm: RoundingMode,
+): bigint {
+  const { coefficient, scale } = exact_factor(rate, "removePercentage");
+  const unit = powerOfTen(scale);
+  if (unit + coefficient === 0n) {
+    throw new DomainError("Cannot remove a rate of -1", "removePercentage", [
+      rate.toString(),
+    ]);
+  }
+  return divide_with_signals(
+    value * unit,
+    unit + coefficient,
+    ctx,
+    rm,
+    "removePercentage",
+    [value, rate.toString()],
+  );
+}
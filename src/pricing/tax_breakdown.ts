@@ -0,0 +1,119 @@
+import { allocate_units } from "../allocation";
+import { divide_with_signals } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext, RateValue } from "../FixedPrecision";
+import { exact_rates } from "./internal/exact_rates";
+
+export type Tax_Breakdown = {
+  net: bigint;
+  taxes: bigint[];
+  gross: bigint;
+};
+
+function exclusive_taxes(
+  net: bigint,
+  coefficients: bigint[],
+  unit: bigint,
+  compound: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint[] {
+  const taxes: bigint[] = [];
+  let base = net;
+  for (const coefficient of coefficients) {
+    const tax = divide_with_signals(
+      base * coefficient,
+      unit,
+      ctx,
+      ctx.roundingMode,
+      operation,
+      [net, coefficient],
+    );
+    taxes.push(tax);
+    if (compound) base += tax;
+  }
+  return taxes;
+}
+
+function inclusive_net(
+  gross: bigint,
+  coefficients: bigint[],
+  unit: bigint,
+  compound: boolean,
+  ctx: FPContext,
+  operation: string,
+): { net: bigint; weights: bigint[] } {
+  let numerator = unit;
+  let denominator = unit;
+  const weights: bigint[] = [];
+  if (compound) {
+    for (const coefficient of coefficients) {
+      for (let i = 0; i < weights.length; i++) weights[i] *= unit;
+      weights.push(coefficient * numerator);
+      numerator *= unit + coefficient;
+      denominator *= unit;
+    }
+  } else {
+    for (const coefficient of coefficients) {
+      weights.push(coefficient);
+      numerator += coefficient;
+    }
+  }
+  const net = divide_with_signals(
+    gross * denominator,
+    numerator,
+    ctx,
+    ctx.roundingMode,
+    operation,
+    [gross],
+  );
+  return { net, weights };
+}
+
+export function tax_breakdown(
+  amount: bigint,
+  rates: readonly RateValue[],
+  inclusive: boolean,
+  compound: boolean,
+  ctx: FPContext,
+  operation: string,
+): Tax_Breakdown {
+  const { coefficients, unit } = exact_rates(rates, operation);
+  if (coefficients.some((coefficient) => coefficient < 0n)) {
+    throw new DomainError(
+      "Tax rates must be non-negative",
+      operation,
+      rates.map(String),
+    );
+  }
+
+  if (!inclusive) {
+    const taxes = exclusive_taxes(
+      amount,
+      coefficients,
+      unit,
+      compound,
+      ctx,
+      operation,
+    );
+    return {
+      net: amount,
+      taxes,
+      gross: taxes.reduce((sum, tax) => sum + tax, amount),
+    };
+  }
+
+  const { net, weights } = inclusive_net(
+    amount,
+    coefficients,
+    unit,
+    compound,
+    ctx,
+    operation,
+  );
+  const taxes =
+    net === amount
+      ? weights.map(() => 0n)
+      : allocate_units(amount - net, weights, "largestRemainder", operation);
+  return { net, taxes, gross: amount };
+}
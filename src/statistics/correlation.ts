@@ -0,0 +1,34 @@
+import { divide_with_signals, sqrt_value } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+import { co_moments } from "./internal/co_moments";
+
+const CORRELATION_GUARD_DIGITS = 12;
+
+export function correlation_value(
+  xs: readonly bigint[],
+  ys: readonly bigint[],
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  const { sxx, syy, sxy } = co_moments(xs, ys, operation);
+  if (sxx === 0n || syy === 0n) {
+    throw new DomainError(
+      "Correlation is undefined when a series is constant",
+      operation,
+    );
+  }
+
+  const guard = powerOfTen(CORRELATION_GUARD_DIGITS);
+  const scaled = ctx.SCALE * guard;
+  const magnitude = sqrt_value((sxy * sxy * scaled * scaled) / (sxx * syy), 1n);
+  return divide_with_signals(
+    sxy < 0n ? -magnitude : magnitude,
+    guard,
+    ctx,
+    ctx.roundingMode,
+    operation,
+    [],
+  );
+}
@@ -0,0 +1,31 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError, format_scaled } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { co_moments } from "./internal/co_moments";
+
+export function covariance_value(
+  xs: readonly bigint[],
+  ys: readonly bigint[],
+  sample: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  const { count, sxy } = co_moments(xs, ys, operation);
+  if (sample && count < 2n) {
+    throw new DomainError(
+      "Sample covariance needs at least two values",
+      operation,
+      [xs.length],
+    );
+  }
+
+  const denominator = count * (sample ? count - 1n : count);
+  return divide_with_signals(
+    sxy,
+    denominator * ctx.SCALE,
+    ctx,
+    ctx.roundingMode,
+    operation,
+    [format_scaled(sxy, ctx.SCALE * ctx.SCALE), denominator],
+  );
+}
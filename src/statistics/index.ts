@@ -1,3 +1,20 @@
+export { correlation_value } from "./correlation";
+export { covariance_value } from "./covariance";
+export { type Linear_Regression, linear_regression } from "./linear_regression";
 export { max_values } from "./max";
+export { mean_of_total, mean_value } from "./mean";
+export { median_value } from "./median";
 export { min_values } from "./min";
+export { mode_values } from "./mode";
+export { quantile_fraction, quantile_value } from "./quantile";
+export { range_value } from "./range";
 export { sum_values } from "./sum";
+export {
+  type Moments,
+  moments_of,
+  moments_stddev_value,
+  moments_variance_value,
+  stddev_value,
+  variance_value,
+} from "./variance";
+export { weighted_mean_value } from "./weighted_mean";
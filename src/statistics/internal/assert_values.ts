@@ -0,0 +1,13 @@
+import { DomainError } from "../../core/errors";
+
+export function assert_values(
+  values: readonly bigint[],
+  operation: string,
+): void {
+  if (values.length === 0) {
+    throw new DomainError(
+      `FixedPrecision.${operation} requires at least one argument`,
+      operation,
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { DomainError } from "../../core/errors";
+import { dot_product } from "../../matrix";
+import { assert_values } from "./assert_values";
+
+export type Co_Moments = {
+  count: bigint;
+  totalX: bigint;
+  totalY: bigint;
+  sxx: bigint;
+  syy: bigint;
+  sxy: bigint;
+};
+
+export function co_moments(
+  xs: readonly bigint[],
+  ys: readonly bigint[],
+  operation: string,
+): Co_Moments {
+  if (xs.length !== ys.length) {
+    throw new DomainError("Series must have the same length", operation, [
+      xs.length,
+      ys.length,
+    ]);
+  }
+  assert_values(xs, operation);
+
+  const count = BigInt(xs.length);
+  const totalX = xs.reduce((sum, x) => sum + x, 0n);
+  const totalY = ys.reduce((sum, y) => sum + y, 0n);
+  return {
+    count,
+    totalX,
+    totalY,
+    sxx: count * dot_product(xs, xs, 1n) - totalX * totalX,
+    syy: count * dot_product(ys, ys, 1n) - totalY * totalY,
+    sxy: count * dot_product(xs, ys, 1n) - totalX * totalY,
+  };
+}
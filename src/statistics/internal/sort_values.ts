@@ -0,0 +1,5 @@
+import { compareValues } from "../../relational";
+
+export function sort_values(values: readonly bigint[]): bigint[] {
+  return [...values].sort(compareValues);
+}
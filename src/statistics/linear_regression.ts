@@ -0,0 +1,43 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { co_moments } from "./internal/co_moments";
+
+export type Linear_Regression = {
+  slope: bigint;
+  intercept: bigint;
+  rSquared: bigint;
+  predict: (x: bigint) => bigint;
+};
+
+export function linear_regression(
+  xs: readonly bigint[],
+  ys: readonly bigint[],
+  ctx: FPContext,
+  operation: string,
+): Linear_Regression {
+  const { count, totalX, totalY, sxx, syy, sxy } = co_moments(
+    xs,
+    ys,
+    operation,
+  );
+  if (sxx === 0n) {
+    throw new DomainError(
+      "Regression needs at least two distinct x values",
+      operation,
+    );
+  }
+
+  const divide = (value: bigint, divisor: bigint, op: string) =>
+    divide_with_signals(value, divisor, ctx, ctx.roundingMode, op, []);
+  const offset = totalY * sxx - sxy * totalX;
+  return {
+    slope: divide(sxy * ctx.SCALE, sxx, operation),
+    intercept: divide(offset, count * sxx, operation),
+    rSquared:
+      syy === 0n
+        ? ctx.SCALE
+        : divide(sxy * sxy * ctx.SCALE, sxx * syy, operation),
+    predict: (x) => divide(offset + count * sxy * x, count * sxx, "predict"),
+  };
+}
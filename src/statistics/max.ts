@@ -1,3 +1,4 @@
+import { DomainError } from "../core/errors";
 import type { FixedPrecisionValue } from "../FixedPrecision";
 
 export function max_values<T>(
@@ -7,7 +8,10 @@ export function max_values<T>(
 ): T {
   const first = values[0];
   if (first === undefined) {
-    throw new Error("FixedPrecision.max requires at least one argument");
+    throw new DomainError(
+      "FixedPrecision.max requires at least one argument",
+      "max",
+    );
   }
   let result = normalize(first);
   for (let i = 1; i < values.length; i++) {
@@ -0,0 +1,26 @@
+import { divide_with_signals } from "../arithmetic";
+import { format_scaled } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { assert_values } from "./internal/assert_values";
+
+export function mean_of_total(
+  total: bigint,
+  count: bigint,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  return divide_with_signals(total, count, ctx, ctx.roundingMode, operation, [
+    format_scaled(total, ctx.SCALE),
+    Number(count),
+  ]);
+}
+
+export function mean_value(
+  values: readonly bigint[],
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  const total = values.reduce((sum, value) => sum + value, 0n);
+  return mean_of_total(total, BigInt(values.length), ctx, operation);
+}
@@ -0,0 +1,24 @@
+import { divide_with_signals } from "../arithmetic";
+import { format_scaled } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { assert_values } from "./internal/assert_values";
+import { sort_values } from "./internal/sort_values";
+
+export function median_value(
+  values: readonly bigint[],
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  const sorted = sort_values(values);
+  const middle = sorted.length >> 1;
+  if (sorted.length % 2 === 1) {
+    return sorted[middle];
+  }
+
+  const total = sorted[middle - 1] + sorted[middle];
+  return divide_with_signals(total, 2n, ctx, ctx.roundingMode, operation, [
+    format_scaled(sorted[middle - 1], ctx.SCALE),
+    format_scaled(sorted[middle], ctx.SCALE),
+  ]);
+}
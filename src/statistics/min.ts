@@ -1,3 +1,4 @@
+import { DomainError } from "../core/errors";
 import type { FixedPrecisionValue } from "../FixedPrecision";
 
 export function min_values<T>(
@@ -7,7 +8,10 @@ export function min_values<T>(
 ): T {
   const first = values[0];
   if (first === undefined) {
-    throw new Error("FixedPrecision.min requires at least one argument");
+    throw new DomainError(
+      "FixedPrecision.min requires at least one argument",
+      "min",
+    );
   }
   let result = normalize(first);
   for (let i = 1; i < values.length; i++) {
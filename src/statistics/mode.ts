@@ -0,0 +1,21 @@
+import { assert_values } from "./internal/assert_values";
+import { sort_values } from "./internal/sort_values";
+
+export function mode_values(
+  values: readonly bigint[],
+  operation: string,
+): bigint[] {
+  assert_values(values, operation);
+  const counts = new Map<bigint, number>();
+  let highest = 0;
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > highest) highest = count;
+  }
+  return sort_values(
+    [...counts]
+      .filter(([, count]) => count === highest)
+      .map(([value]) => value),
+  );
+}
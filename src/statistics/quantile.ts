@@ -0,0 +1,103 @@
+import { divide_with_signals } from "../arithmetic";
+import { exact_factor } from "../construction/exact_factor";
+import { DomainError, format_scaled } from "../core/errors";
+import type {
+  FPContext,
+  QuantileMethod,
+  RateValue,
+  Ratio,
+} from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+import { assert_values } from "./internal/assert_values";
+import { sort_values } from "./internal/sort_values";
+
+const QUANTILE_METHODS: readonly string[] = [
+  "linear",
+  "lower",
+  "higher",
+  "nearest",
+  "midpoint",
+];
+
+export function quantile_fraction(
+  q: RateValue,
+  percent: boolean,
+  operation: string,
+): Ratio {
+  const { coefficient, scale } = exact_factor(q, operation);
+  const denominator = powerOfTen(scale + (percent ? 2 : 0));
+  if (coefficient < 0n || coefficient > denominator) {
+    throw new DomainError(
+      percent
+        ? "Percentile must be between 0 and 100"
+        : "Quantile must be between 0 and 1",
+      operation,
+      [q.toString()],
+    );
+  }
+  return { numerator: coefficient, denominator };
+}
+
+export function quantile_value(
+  values: readonly bigint[],
+  fraction: Ratio,
+  method: QuantileMethod,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  if (!QUANTILE_METHODS.includes(method)) {
+    throw new DomainError(
+      "Invalid quantile method. Must be linear, lower, higher, nearest or midpoint",
+      operation,
+      [method],
+    );
+  }
+
+  const sorted = sort_values(values);
+  const { denominator } = fraction;
+  const position = BigInt(sorted.length - 1) * fraction.numerator;
+  const index = Number(position / denominator);
+  const remainder = position % denominator;
+  const lower = sorted[index];
+  if (remainder === 0n) {
+    return lower;
+  }
+
+  const upper = sorted[index + 1];
+  const operands = [
+    format_scaled(lower, ctx.SCALE),
+    format_scaled(upper, ctx.SCALE),
+  ];
+  switch (method) {
+    case "linear":
+      return divide_with_signals(
+        lower * denominator + (upper - lower) * remainder,
+        denominator,
+        ctx,
+        ctx.roundingMode,
+        operation,
+        operands,
+      );
+    case "lower":
+      return lower;
+    case "higher":
+      return upper;
+    case "nearest": {
+      const twice = remainder * 2n;
+      if (twice === denominator) {
+        return index % 2 === 0 ? lower : upper;
+      }
+      return twice < denominator ? lower : upper;
+    }
+    case "midpoint":
+      return divide_with_signals(
+        lower + upper,
+        2n,
+        ctx,
+        ctx.roundingMode,
+        operation,
+        operands,
+      );
+  }
+}
@@ -0,0 +1,16 @@
+import { compareValues } from "../relational";
+import { assert_values } from "./internal/assert_values";
+
+export function range_value(
+  values: readonly bigint[],
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  let low = values[0];
+  let high = values[0];
+  for (const value of values) {
+    if (compareValues(value, low) < 0) low = value;
+    if (compareValues(value, high) > 0) high = value;
+  }
+  return high - low;
+}
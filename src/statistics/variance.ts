@@ -0,0 +1,102 @@
+import { divide_with_signals, sqrt_value } from "../arithmetic";
+import { DomainError, format_scaled } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+import { assert_values } from "./internal/assert_values";
+
+const STDDEV_GUARD_DIGITS = 12;
+
+export type Moments = {
+  count: bigint;
+  total: bigint;
+  squares: bigint;
+};
+
+type Variance_Ratio = {
+  numerator: bigint;
+  denominator: bigint;
+};
+
+export function moments_of(values: readonly bigint[]): Moments {
+  let total = 0n;
+  let squares = 0n;
+  for (const value of values) {
+    total += value;
+    squares += value * value;
+  }
+  return { count: BigInt(values.length), total, squares };
+}
+
+function variance_ratio(
+  moments: Moments,
+  sample: boolean,
+  operation: string,
+): Variance_Ratio {
+  const { count, total, squares } = moments;
+  if (sample && count < 2n) {
+    throw new DomainError(
+      "Sample variance needs at least two values",
+      operation,
+      [Number(count)],
+    );
+  }
+  return {
+    numerator: count * squares - total * total,
+    denominator: count * (sample ? count - 1n : count),
+  };
+}
+
+export function moments_variance_value(
+  moments: Moments,
+  sample: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  const { numerator, denominator } = variance_ratio(moments, sample, operation);
+  return divide_with_signals(
+    numerator,
+    denominator * ctx.SCALE,
+    ctx,
+    ctx.roundingMode,
+    operation,
+    [format_scaled(numerator, ctx.SCALE * ctx.SCALE), denominator],
+  );
+}
+
+export function moments_stddev_value(
+  moments: Moments,
+  sample: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  const { numerator, denominator } = variance_ratio(moments, sample, operation);
+  const guard = powerOfTen(STDDEV_GUARD_DIGITS);
+  return divide_with_signals(
+    sqrt_value((numerator * guard * guard) / denominator, 1n),
+    guard,
+    ctx,
+    ctx.roundingMode,
+    operation,
+    [format_scaled(numerator, ctx.SCALE * ctx.SCALE), denominator],
+  );
+}
+
+export function variance_value(
+  values: readonly bigint[],
+  sample: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  return moments_variance_value(moments_of(values), sample, ctx, operation);
+}
+
+export function stddev_value(
+  values: readonly bigint[],
+  sample: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  return moments_stddev_value(moments_of(values), sample, ctx, operation);
+}
@@ -0,0 +1,45 @@
+import { divide_with_signals } from "../arithmetic";
+import { DomainError, format_scaled } from "../core/errors";
+import type { FPContext } from "../FixedPrecision";
+import { assert_values } from "./internal/assert_values";
+
+export function weighted_mean_value(
+  values: readonly bigint[],
+  weights: readonly bigint[],
+  ctx: FPContext,
+  operation: string,
+): bigint {
+  assert_values(values, operation);
+  if (weights.length !== values.length) {
+    throw new DomainError(
+      "Values and weights must have the same length",
+      operation,
+      [values.length, weights.length],
+    );
+  }
+
+  let total = 0n;
+  let weightTotal = 0n;
+  for (let i = 0; i < values.length; i++) {
+    total += values[i] * weights[i];
+    weightTotal += weights[i];
+  }
+  if (weights.some((weight) => weight < 0n) || weightTotal === 0n) {
+    throw new DomainError(
+      "Weights must be non-negative with a positive total",
+      operation,
+      weights.map((weight) => format_scaled(weight, ctx.SCALE)),
+    );
+  }
+  return divide_with_signals(
+    total,
+    weightTotal,
+    ctx,
+    ctx.roundingMode,
+    operation,
+    [
+      format_scaled(total, ctx.SCALE * ctx.SCALE),
+      format_scaled(weightTotal, ctx.SCALE),
+    ],
+  );
+}
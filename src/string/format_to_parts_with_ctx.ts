@@ -0,0 +1,136 @@
+import { round_to_scale_value } from "../arithmetic";
+import { MAX_PLACES } from "../core/context";
+import { DomainError } from "../core/errors";
+import type {
+  FormatOptions,
+  FormatPart,
+  FPContext,
+  SignDisplay,
+} from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+import { group_integer_digits } from "./internal/group_integer_digits";
+import { resolve_locale_symbols } from "./internal/resolve_locale_symbols";
+
+function assert_fraction_digits(digits: number, operation: string): void {
+  if (!Number.isInteger(digits) || digits < 0 || digits > MAX_PLACES) {
+    throw new DomainError(
+      `Fraction digits must be an integer between 0 and ${MAX_PLACES}`,
+      operation,
+      [digits],
+    );
+  }
+}
+
+function assert_group_sizes(sizes: readonly number[], operation: string): void {
+  if (
+    sizes.length < 1 ||
+    sizes.length > 2 ||
+    !sizes.every((size) => Number.isInteger(size) && size > 0)
+  ) {
+    throw new DomainError(
+      "Group sizes must be one or two positive integers",
+      operation,
+      [sizes],
+    );
+  }
+}
+
+function sign_part(
+  value: bigint,
+  rounded: bigint,
+  display: SignDisplay,
+  minusSign: string,
+  plusSign: string,
+): FormatPart | undefined {
+  // Like Intl, a negative value that rounds to zero keeps its sign ("-0")
+  // unless the display is "exceptZero" or "never"
+  if (
+    rounded < 0n ||
+    (value < 0n && (display === "auto" || display === "always"))
+  ) {
+    return display === "never"
+      ? undefined
+      : { type: "minusSign", value: minusSign };
+  }
+  if (display === "always" || (display === "exceptZero" && rounded > 0n)) {
+    return { type: "plusSign", value: plusSign };
+  }
+  return undefined;
+}
+
+export function format_to_parts_with_ctx(
+  value: bigint,
+  ctx: FPContext,
+  options: FormatOptions,
+  operation: string,
+): FormatPart[] {
+  const symbols = resolve_locale_symbols(options.locale, operation);
+  const minimum = options.minimumFractionDigits ?? 0;
+  assert_fraction_digits(minimum, operation);
+  const maximum =
+    options.maximumFractionDigits ?? Math.max(ctx.places, minimum);
+  assert_fraction_digits(maximum, operation);
+  if (minimum > maximum) {
+    throw new DomainError(
+      "minimumFractionDigits must not exceed maximumFractionDigits",
+      operation,
+      [minimum, maximum],
+    );
+  }
+  const groupSizes = options.groupSizes ?? symbols.groupSizes;
+  assert_group_sizes(groupSizes, operation);
+
+  const rounded =
+    maximum >= ctx.places
+      ? value * powerOfTen(maximum - ctx.places)
+      : round_to_scale_value(
+          value,
+          powerOfTen(ctx.places - maximum),
+          options.roundingMode ?? ctx.roundingMode,
+        );
+
+  const digits = (rounded < 0n ? -rounded : rounded)
+    .toString()
+    .padStart(maximum + 1, "0");
+  const integer = digits.slice(0, digits.length - maximum);
+  let fraction = digits.slice(digits.length - maximum);
+  let end = fraction.length;
+  while (end > minimum && fraction[end - 1] === "0") {
+    end--;
+  }
+  fraction = fraction.slice(0, end);
+
+  const parts: FormatPart[] = [];
+  const sign = sign_part(
+    value,
+    rounded,
+    options.signDisplay ?? "auto",
+    symbols.minusSign,
+    symbols.plusSign,
+  );
+  if (sign !== undefined) {
+    parts.push(sign);
+  }
+
+  const groups =
+    options.useGrouping === false
+      ? [integer]
+      : group_integer_digits(integer, groupSizes);
+  const groupSeparator = options.groupSeparator ?? symbols.group;
+  groups.forEach((group, index) => {
+    if (index > 0) {
+      parts.push({ type: "group", value: groupSeparator });
+    }
+    parts.push({ type: "integer", value: group });
+  });
+
+  if (fraction !== "") {
+    parts.push({
+      type: "decimal",
+      value: options.decimalSeparator ?? symbols.decimal,
+    });
+    parts.push({ type: "fraction", value: fraction });
+  }
+
+  return parts;
+}
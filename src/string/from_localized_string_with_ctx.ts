@@ -0,0 +1,31 @@
+import type { FPContext, ParseOptions } from "../FixedPrecision";
+import { from_string_with_ctx } from "./from_string_with_ctx";
+import { parse_localized_string } from "./internal/parse_localized_string";
+import {
+  resolve_currency_symbol,
+  resolve_locale_symbols,
+} from "./internal/resolve_locale_symbols";
+
+export function from_localized_string_with_ctx(
+  str: string,
+  ctx: FPContext,
+  options: ParseOptions,
+): bigint {
+  const symbols = resolve_locale_symbols(options.locale, "parse");
+  const canonical = parse_localized_string(
+    str,
+    {
+      ...symbols,
+      group: options.groupSeparator ?? symbols.group,
+      decimal: options.decimalSeparator ?? symbols.decimal,
+      groupSizes: options.groupSizes ?? symbols.groupSizes,
+      currencySymbol:
+        options.currency === undefined
+          ? undefined
+          : resolve_currency_symbol(options.locale, options.currency, "parse"),
+    },
+    options.allowCurrencySymbol ?? false,
+    "parse",
+  );
+  return from_string_with_ctx(canonical, ctx);
+}
@@ -1,16 +1,29 @@
+import { ParseError } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
-import { from_integer_string_with_ctx } from "./internal/from_integer_string_with_ctx";
-import { from_long_decimal_string_with_ctx } from "./internal/from_long_decimal_string_with_ctx";
-import { from_short_decimal_string_with_ctx } from "./internal/from_short_decimal_string_with_ctx";
+import { parse_decimal_string } from "./internal/parse_decimal_string";
+import { scale_decimal_digits } from "./internal/scale_decimal_digits";
+
+const MAX_PARSED_DIGITS = 100_000;
 
 export function from_string_with_ctx(str: string, ctx: FPContext): bigint {
-  const dot_index = str.indexOf(".");
-  const P = ctx.places;
-  if (dot_index === -1) {
-    return from_integer_string_with_ctx(str, P, ctx);
+  const { negative, integer, fraction, exponent } = parse_decimal_string(
+    str,
+    ctx.allowBareDecimalPoint,
+  );
+  const digits = (integer + fraction).replace(/^0+/, "");
+  if (digits === "") {
+    return 0n;
   }
-  if (dot_index + P < 16) {
-    return from_short_decimal_string_with_ctx(str, dot_index, P, ctx);
+
+  const shift = exponent - fraction.length + ctx.places;
+  if (digits.length + shift > MAX_PARSED_DIGITS) {
+    throw new ParseError(
+      `Exponent is too large: ${exponent}`,
+      "parse",
+      [str],
+      str.search(/[eE]/),
+    );
   }
-  return from_long_decimal_string_with_ctx(str, dot_index, P, ctx);
+
+  return scale_decimal_digits(digits, negative, shift, ctx, str);
 }
@@ -1,3 +1,7 @@
+export { format_to_parts_with_ctx } from "./format_to_parts_with_ctx";
+export { from_localized_string_with_ctx } from "./from_localized_string_with_ctx";
 export { from_string_with_ctx } from "./from_string_with_ctx";
+export { parse_decimal_string } from "./internal/parse_decimal_string";
+export { scale_decimal_digits } from "./internal/scale_decimal_digits";
 export { to_base_with_ctx } from "./to_base_with_ctx";
 export { to_string_with_ctx } from "./to_string_with_ctx";
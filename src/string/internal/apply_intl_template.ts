@@ -0,0 +1,45 @@
+import { DomainError } from "../../core/errors";
+import type { FormatPart } from "../../FixedPrecision";
+
+const NUMBER_PARTS = new Set(["integer", "group", "decimal", "fraction"]);
+
+export function apply_intl_template(
+  parts: FormatPart[],
+  locale: string,
+  options: Intl.NumberFormatOptions,
+  operation: string,
+): string {
+  const sign = parts.find(
+    (part) => part.type === "minusSign" || part.type === "plusSign",
+  );
+  const digits = parts
+    .filter((part) => part !== sign)
+    .map((part) => part.value)
+    .join("");
+
+  let template: Intl.NumberFormatPart[];
+  try {
+    template = new Intl.NumberFormat(locale, {
+      ...options,
+      signDisplay: sign?.type === "plusSign" ? "always" : "auto",
+    }).formatToParts(sign?.type === "minusSign" ? -1 : 1);
+  } catch {
+    throw new DomainError(`Invalid locale: ${locale}`, operation, [locale]);
+  }
+
+  let result = "";
+  let emitted = false;
+  for (const part of template) {
+    if (part.type === "minusSign" || part.type === "plusSign") {
+      result += sign?.value ?? "";
+    } else if (NUMBER_PARTS.has(part.type)) {
+      if (!emitted) {
+        result += digits;
+        emitted = true;
+      }
+    } else {
+      result += part.value;
+    }
+  }
+  return result;
+}
@@ -1,5 +1,7 @@
-export function assert_significant_digits(sd: number): void {
+import { DomainError } from "../../core/errors";
+
+export function assert_significant_digits(sd: number, operation: string): void {
   if (!Number.isInteger(sd) || sd < 1 || sd >= 1e6) {
-    throw new Error("Invalid precision");
+    throw new DomainError("Invalid precision", operation, [sd]);
   }
 }
@@ -0,0 +1,15 @@
+export function group_integer_digits(
+  integer: string,
+  sizes: readonly number[],
+): string[] {
+  const groups: string[] = [];
+  let end = integer.length;
+  let size = sizes[0];
+  while (end > size) {
+    groups.unshift(integer.slice(end - size, end));
+    end -= size;
+    size = sizes[1] ?? sizes[0];
+  }
+  groups.unshift(integer.slice(0, end));
+  return groups;
+}
@@ -0,0 +1,100 @@
+import { ParseError } from "../../core/errors";
+
+const PLUS = 43;
+const MINUS = 45;
+const DOT = 46;
+const ZERO = 48;
+const NINE = 57;
+const UPPER_E = 69;
+const LOWER_E = 101;
+
+export type Parsed_Decimal = {
+  negative: boolean;
+  integer: string;
+  fraction: string;
+  exponent: number;
+};
+
+function is_digit(code: number): boolean {
+  return code >= ZERO && code <= NINE;
+}
+
+export function parse_error(
+  str: string,
+  message: string,
+  index: number,
+): ParseError {
+  return new ParseError(`${message} at index ${index}`, "parse", [str], index);
+}
+
+export function scan_digits(str: string, start: number): number {
+  let index = start;
+  while (index < str.length && is_digit(str.charCodeAt(index))) {
+    index++;
+  }
+  return index;
+}
+
+export function parse_decimal_string(
+  str: string,
+  allow_bare_point: boolean,
+): Parsed_Decimal {
+  let index = 0;
+  let negative = false;
+  const first = str.charCodeAt(0);
+  if (first === PLUS || first === MINUS) {
+    negative = first === MINUS;
+    index = 1;
+  }
+
+  const integer_start = index;
+  index = scan_digits(str, index);
+  const integer = str.slice(integer_start, index);
+
+  let fraction = "";
+  let dot_index = -1;
+  if (str.charCodeAt(index) === DOT) {
+    dot_index = index;
+    const fraction_start = index + 1;
+    index = scan_digits(str, fraction_start);
+    fraction = str.slice(fraction_start, index);
+  }
+
+  let exponent = 0;
+  const marker = str.charCodeAt(index);
+  if (marker === LOWER_E || marker === UPPER_E) {
+    index++;
+    const sign = str.charCodeAt(index);
+    if (sign === PLUS || sign === MINUS) {
+      index++;
+    }
+    const exponent_start = index;
+    index = scan_digits(str, exponent_start);
+    if (index === exponent_start) {
+      throw parse_error(str, "Expected a digit", index);
+    }
+    exponent = Number(str.slice(exponent_start, index));
+    if (sign === MINUS) {
+      exponent = -exponent;
+    }
+  }
+
+  if (index < str.length) {
+    throw parse_error(str, `Unexpected character "${str[index]}"`, index);
+  }
+
+  if (integer === "" && fraction === "") {
+    throw parse_error(str, "Expected a digit", integer_start);
+  }
+
+  if (dot_index !== -1 && !allow_bare_point) {
+    if (integer === "") {
+      throw parse_error(str, 'Expected a digit before "."', dot_index);
+    }
+    if (fraction === "") {
+      throw parse_error(str, 'Expected a digit after "."', dot_index);
+    }
+  }
+
+  return { negative, integer, fraction, exponent };
+}
@@ -0,0 +1,179 @@
+import { DomainError } from "../../core/errors";
+import { CURRENCY_MINOR_UNITS } from "../../currency/currencies";
+import { parse_error, scan_digits } from "./parse_decimal_string";
+import type { Locale_Symbols } from "./resolve_locale_symbols";
+
+const SPACE = /\s/;
+const LETTER = /\p{L}/u;
+const CURRENCY = /\p{Sc}/u;
+const CODE_LENGTH = 3;
+
+type Localized_Scanner = {
+  str: string;
+  index: number;
+  end: number;
+};
+
+function skip_spaces(scanner: Localized_Scanner): void {
+  while (
+    scanner.index < scanner.end &&
+    SPACE.test(scanner.str[scanner.index])
+  ) {
+    scanner.index++;
+  }
+}
+
+function read_sign(
+  scanner: Localized_Scanner,
+  symbols: Locale_Symbols,
+): string {
+  for (const [sign, canonical] of [
+    [symbols.minusSign, "-"],
+    [symbols.plusSign, "+"],
+    ["-", "-"],
+    ["+", "+"],
+  ]) {
+    if (scanner.str.startsWith(sign, scanner.index)) {
+      scanner.index += sign.length;
+      return canonical;
+    }
+  }
+  return "";
+}
+
+function read_marker(scanner: Localized_Scanner, marker: string): boolean {
+  const { str, index } = scanner;
+  const end = index + marker.length;
+  if (
+    marker === "" ||
+    !str.startsWith(marker, index) ||
+    (LETTER.test(marker[marker.length - 1]) && LETTER.test(str[end] ?? ""))
+  ) {
+    return false;
+  }
+  scanner.index = end;
+  return true;
+}
+
+function read_currency(
+  scanner: Localized_Scanner,
+  symbols: Locale_Symbols,
+): boolean {
+  if (
+    symbols.currencySymbol !== undefined &&
+    read_marker(scanner, symbols.currencySymbol)
+  ) {
+    return true;
+  }
+  const code = scanner.str.slice(scanner.index, scanner.index + CODE_LENGTH);
+  if (CURRENCY_MINOR_UNITS.has(code) && read_marker(scanner, code)) {
+    return true;
+  }
+  const char = scanner.str[scanner.index] ?? "";
+  return CURRENCY.test(char) && read_marker(scanner, char);
+}
+
+function group_length(scanner: Localized_Scanner, separator: string): number {
+  const { str, index } = scanner;
+  if (SPACE.test(separator) && SPACE.test(str[index] ?? "")) {
+    return 1;
+  }
+  return str.startsWith(separator, index) ? separator.length : 0;
+}
+
+function assert_grouping(
+  str: string,
+  lengths: number[],
+  separators: number[],
+  sizes: readonly number[],
+): void {
+  const last = lengths.length - 1;
+  for (let i = last; i >= 0; i--) {
+    const expected = i === last ? sizes[0] : (sizes[1] ?? sizes[0]);
+    const valid = i === 0 ? lengths[i] <= expected : lengths[i] === expected;
+    if (!valid) {
+      throw parse_error(
+        str,
+        "Misplaced group separator",
+        separators[Math.max(i - 1, 0)],
+      );
+    }
+  }
+}
+
+export function parse_localized_string(
+  str: string,
+  symbols: Locale_Symbols,
+  allow_currency: boolean,
+  operation: string,
+): string {
+  if (symbols.group === symbols.decimal) {
+    throw new DomainError(
+      "Group and decimal separators must differ",
+      operation,
+      [symbols.group],
+    );
+  }
+
+  const scanner: Localized_Scanner = { str, index: 0, end: str.length };
+  skip_spaces(scanner);
+  let sign = read_sign(scanner, symbols);
+  skip_spaces(scanner);
+  if (allow_currency && read_currency(scanner, symbols)) {
+    skip_spaces(scanner);
+    sign ||= read_sign(scanner, symbols);
+  }
+
+  const body_start = scanner.index;
+  let integer = "";
+  const lengths: number[] = [];
+  const separators: number[] = [];
+  while (true) {
+    const digits_end = scan_digits(str, scanner.index);
+    if (digits_end === scanner.index) {
+      break;
+    }
+    integer += str.slice(scanner.index, digits_end);
+    lengths.push(digits_end - scanner.index);
+    scanner.index = digits_end;
+
+    const length = group_length(scanner, symbols.group);
+    if (
+      length === 0 ||
+      scan_digits(str, scanner.index + length) === scanner.index + length
+    ) {
+      break;
+    }
+    separators.push(scanner.index);
+    scanner.index += length;
+  }
+  if (separators.length > 0) {
+    assert_grouping(str, lengths, separators, symbols.groupSizes);
+  }
+
+  let fraction: string | undefined;
+  if (str.startsWith(symbols.decimal, scanner.index)) {
+    const fraction_start = scanner.index + symbols.decimal.length;
+    scanner.index = scan_digits(str, fraction_start);
+    fraction = str.slice(fraction_start, scanner.index);
+  }
+  if (integer === "" && !fraction) {
+    throw parse_error(str, "Expected a digit", body_start);
+  }
+
+  skip_spaces(scanner);
+  if (allow_currency && read_currency(scanner, symbols)) {
+    skip_spaces(scanner);
+  }
+  if (scanner.index < scanner.end) {
+    throw parse_error(
+      str,
+      `Unexpected character "${str[scanner.index]}"`,
+      scanner.index,
+    );
+  }
+
+  return fraction === undefined
+    ? `${sign}${integer}`
+    : `${sign}${integer}.${fraction}`;
+}
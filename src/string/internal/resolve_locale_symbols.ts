@@ -0,0 +1,94 @@
+import { DomainError } from "../../core/errors";
+import { currency_minor_units } from "../../currency/currencies";
+
+export type Locale_Symbols = {
+  group: string;
+  decimal: string;
+  minusSign: string;
+  plusSign: string;
+  groupSizes: readonly number[];
+  currencySymbol?: string;
+};
+
+const DEFAULT_SYMBOLS: Locale_Symbols = {
+  group: ",",
+  decimal: ".",
+  minusSign: "-",
+  plusSign: "+",
+  groupSizes: [3],
+};
+
+const SAMPLE = -1234567.5;
+
+const symbols_cache = new Map<string, Locale_Symbols>();
+
+function part_value(
+  parts: Intl.NumberFormatPart[],
+  type: Intl.NumberFormatPartTypes,
+  fallback: string,
+): string {
+  return parts.find((part) => part.type === type)?.value ?? fallback;
+}
+
+export function resolve_locale_symbols(
+  locale: string | undefined,
+  operation: string,
+): Locale_Symbols {
+  if (locale === undefined) {
+    return DEFAULT_SYMBOLS;
+  }
+  const cached = symbols_cache.get(locale);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Digits are always ASCII, so take the separators Intl pairs with Latin digits
+  let parts: Intl.NumberFormatPart[];
+  let plus: Intl.NumberFormatPart[];
+  try {
+    parts = new Intl.NumberFormat(locale, {
+      numberingSystem: "latn",
+    }).formatToParts(SAMPLE);
+    plus = new Intl.NumberFormat(locale, {
+      numberingSystem: "latn",
+      signDisplay: "always",
+    }).formatToParts(1);
+  } catch {
+    throw new DomainError(`Invalid locale: ${locale}`, operation, [locale]);
+  }
+
+  const integers = parts
+    .filter((part) => part.type === "integer")
+    .map((part) => part.value.length);
+  const primary = integers[integers.length - 1] ?? 3;
+  const secondary = integers[integers.length - 2] ?? primary;
+
+  const symbols: Locale_Symbols = {
+    group: part_value(parts, "group", DEFAULT_SYMBOLS.group),
+    decimal: part_value(parts, "decimal", DEFAULT_SYMBOLS.decimal),
+    minusSign: part_value(parts, "minusSign", DEFAULT_SYMBOLS.minusSign),
+    plusSign: part_value(plus, "plusSign", DEFAULT_SYMBOLS.plusSign),
+    groupSizes: [primary, secondary],
+  };
+  symbols_cache.set(locale, symbols);
+  return symbols;
+}
+
+export function resolve_currency_symbol(
+  locale: string | undefined,
+  currency: string,
+  operation: string,
+): string {
+  const code = currency.toUpperCase();
+  currency_minor_units(code, operation);
+  let parts: Intl.NumberFormatPart[];
+  try {
+    parts = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: code,
+    }).formatToParts(1);
+  } catch {
+    throw new DomainError(`Invalid locale: ${locale}`, operation, [locale]);
+  }
+  return part_value(parts, "currency", code);
+}
@@ -0,0 +1,32 @@
+import { round_to_scale_value } from "../../arithmetic";
+import { ParseError } from "../../core/errors";
+import { signal_rounding } from "../../core/signals";
+import type { FPContext } from "../../FixedPrecision";
+import { powerOfTen } from "../../utils";
+
+export function scale_decimal_digits(
+  digits: string,
+  negative: boolean,
+  shift: number,
+  ctx: FPContext,
+  input: string | number,
+): bigint {
+  const magnitude = BigInt(digits);
+  const value = negative ? -magnitude : magnitude;
+  if (shift >= 0) {
+    return value * powerOfTen(shift);
+  }
+
+  const divisor = powerOfTen(Math.min(-shift, digits.length + 1));
+  if (ctx.onExcessDigits === "throw" && value % divisor !== 0n) {
+    throw new ParseError(
+      `Value has more than ${ctx.places} decimal places`,
+      "parse",
+      [input],
+    );
+  }
+
+  signal_rounding(ctx, value, divisor, "parse", [input]);
+  const rm = ctx.onExcessDigits === "truncate" ? 1 : ctx.roundingMode;
+  return round_to_scale_value(value, divisor, rm);
+}
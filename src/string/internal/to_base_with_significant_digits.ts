@@ -5,6 +5,12 @@ import { base_exponent } from "./base_exponent";
 import { base_power } from "./base_power";
 import { format_base_quotient } from "./format_base_quotient";
 
+const BASE_OPERATIONS = {
+  2: "toBinary",
+  8: "toOctal",
+  16: "toHex",
+} as const;
+
 export function to_base_with_significant_digits(
   value: bigint,
   ctx: FPContext,
@@ -12,7 +18,7 @@ export function to_base_with_significant_digits(
   sd: number,
   rm?: RoundingMode,
 ): string {
-  assert_significant_digits(sd);
+  assert_significant_digits(sd, BASE_OPERATIONS[radix]);
 
   if (value === 0n) {
     return "0";
@@ -0,0 +1,7 @@
+export function cumulative_sum_values(values: readonly bigint[]): bigint[] {
+  let total = 0n;
+  return values.map((value) => {
+    total += value;
+    return total;
+  });
+}
@@ -0,0 +1,39 @@
+import { divide_with_signals, round_to_scale_value } from "../arithmetic";
+import type { FPContext } from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+import { assert_window } from "./internal/assert_window";
+
+const EMA_GUARD_DIGITS = 12;
+
+export function ema_values(
+  values: readonly bigint[],
+  window: number,
+  ctx: FPContext,
+  operation: string,
+): bigint[] {
+  assert_window(window, operation);
+  if (values.length < window) {
+    return [];
+  }
+
+  const guard = powerOfTen(EMA_GUARD_DIGITS);
+  const size = BigInt(window);
+  let seed = 0n;
+  for (let i = 0; i < window; i++) {
+    seed += values[i];
+  }
+  let average = round_to_scale_value(seed * guard, size, ctx.roundingMode);
+  const output = (value: bigint) =>
+    divide_with_signals(value, guard, ctx, ctx.roundingMode, operation, []);
+
+  const averages = [output(average)];
+  for (let i = window; i < values.length; i++) {
+    average = round_to_scale_value(
+      2n * values[i] * guard + (size - 1n) * average,
+      size + 1n,
+      ctx.roundingMode,
+    );
+    averages.push(output(average));
+  }
+  return averages;
+}
@@ -0,0 +1,7 @@
+export { cumulative_sum_values } from "./cumulative_sum";
+export { ema_values } from "./ema";
+export { sma_values, wma_values } from "./moving_average";
+export { percent_change_values } from "./percent_change";
+export { rolling_extreme_values } from "./rolling_extreme";
+export { rolling_stddev_values } from "./rolling_stddev";
+export { rolling_sum_values } from "./rolling_sum";
@@ -0,0 +1,13 @@
+import { DomainError } from "../../core/errors";
+
+export function assert_window(
+  window: number,
+  operation: string,
+  name = "Window",
+): void {
+  if (!Number.isSafeInteger(window) || window < 1) {
+    throw new DomainError(`${name} must be a positive integer`, operation, [
+      window,
+    ]);
+  }
+}
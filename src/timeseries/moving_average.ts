@@ -0,0 +1,53 @@
+import { divide_with_signals } from "../arithmetic";
+import type { FPContext } from "../FixedPrecision";
+import { mean_of_total } from "../statistics";
+import { assert_window } from "./internal/assert_window";
+import { rolling_sum_values } from "./rolling_sum";
+
+export function sma_values(
+  values: readonly bigint[],
+  window: number,
+  ctx: FPContext,
+  operation: string,
+): bigint[] {
+  const count = BigInt(window);
+  return rolling_sum_values(values, window, operation).map((total) =>
+    mean_of_total(total, count, ctx, operation),
+  );
+}
+
+export function wma_values(
+  values: readonly bigint[],
+  window: number,
+  ctx: FPContext,
+  operation: string,
+): bigint[] {
+  assert_window(window, operation);
+  const size = BigInt(window);
+  const weightTotal = (size * (size + 1n)) / 2n;
+  const averages: bigint[] = [];
+  let total = 0n;
+  let weighted = 0n;
+  for (let i = 0; i < values.length; i++) {
+    if (i < window) {
+      weighted += BigInt(i + 1) * values[i];
+      total += values[i];
+    } else {
+      weighted += size * values[i] - total;
+      total += values[i] - values[i - window];
+    }
+    if (i >= window - 1) {
+      averages.push(
+        divide_with_signals(
+          weighted,
+          weightTotal,
+          ctx,
+          ctx.roundingMode,
+          operation,
+          [],
+        ),
+      );
+    }
+  }
+  return averages;
+}
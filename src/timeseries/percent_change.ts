@@ -0,0 +1,38 @@
+import { divide_with_signals } from "../arithmetic";
+import { format_scaled } from "../core/errors";
+import { signal_division } from "../core/signals";
+import type { FPContext } from "../FixedPrecision";
+import { assert_window } from "./internal/assert_window";
+
+export function percent_change_values(
+  values: readonly bigint[],
+  periods: number,
+  ctx: FPContext,
+  operation: string,
+): bigint[] {
+  assert_window(periods, operation, "Periods");
+  const changes: bigint[] = [];
+  for (let i = periods; i < values.length; i++) {
+    const previous = values[i - periods];
+    const change = values[i] - previous;
+    const operands = [
+      format_scaled(values[i], ctx.SCALE),
+      format_scaled(previous, ctx.SCALE),
+    ];
+    if (signal_division(ctx, change, previous, operation, operands)) {
+      changes.push(0n);
+      continue;
+    }
+    changes.push(
+      divide_with_signals(
+        change * ctx.SCALE,
+        previous,
+        ctx,
+        ctx.roundingMode,
+        operation,
+        operands,
+      ),
+    );
+  }
+  return changes;
+}
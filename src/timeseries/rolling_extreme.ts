@@ -0,0 +1,25 @@
+import { assert_window } from "./internal/assert_window";
+
+export function rolling_extreme_values(
+  values: readonly bigint[],
+  window: number,
+  replaces: (candidate: bigint, kept: bigint) => boolean,
+  operation: string,
+): bigint[] {
+  assert_window(window, operation);
+  const extremes: bigint[] = [];
+  const indices: number[] = [];
+  let head = 0;
+  for (let i = 0; i < values.length; i++) {
+    while (
+      indices.length > head &&
+      replaces(values[i], values[indices[indices.length - 1]])
+    ) {
+      indices.pop();
+    }
+    indices.push(i);
+    if (indices[head] <= i - window) head++;
+    if (i >= window - 1) extremes.push(values[indices[head]]);
+  }
+  return extremes;
+}
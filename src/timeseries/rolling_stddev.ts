@@ -0,0 +1,32 @@
+import type { FPContext } from "../FixedPrecision";
+import { moments_stddev_value } from "../statistics";
+import { assert_window } from "./internal/assert_window";
+
+export function rolling_stddev_values(
+  values: readonly bigint[],
+  window: number,
+  sample: boolean,
+  ctx: FPContext,
+  operation: string,
+): bigint[] {
+  assert_window(window, operation);
+  const count = BigInt(window);
+  const deviations: bigint[] = [];
+  let total = 0n;
+  let squares = 0n;
+  for (let i = 0; i < values.length; i++) {
+    total += values[i];
+    squares += values[i] * values[i];
+    if (i >= window) {
+      const leaving = values[i - window];
+      total -= leaving;
+      squares -= leaving * leaving;
+    }
+    if (i >= window - 1) {
+      deviations.push(
+        moments_stddev_value({ count, total, squares }, sample, ctx, operation),
+      );
+    }
+  }
+  return deviations;
+}
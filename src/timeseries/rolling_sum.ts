@@ -0,0 +1,17 @@
+import { assert_window } from "./internal/assert_window";
+
+export function rolling_sum_values(
+  values: readonly bigint[],
+  window: number,
+  operation: string,
+): bigint[] {
+  assert_window(window, operation);
+  const sums: bigint[] = [];
+  let total = 0n;
+  for (let i = 0; i < values.length; i++) {
+    total += values[i];
+    if (i >= window) total -= values[i - window];
+    if (i >= window - 1) sums.push(total);
+  }
+  return sums;
+}
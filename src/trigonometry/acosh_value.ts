@@ -1,10 +1,13 @@
 import { natural_log_value, sqrt_value } from "../arithmetic/index";
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 
 export function acosh_value(value: bigint, ctx: FPContext): bigint {
   if (value < ctx.SCALE) {
-    throw new Error(
+    throw new DomainError(
       "Hyperbolic arccosine is defined for values greater than or equal to 1",
+      "acosh",
+      [format_scaled(value, ctx.SCALE)],
     );
   }
 
@@ -1,10 +1,13 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { atanh_value } from "./atanh_value";
 
 export function acoth_value(value: bigint, ctx: FPContext): bigint {
   if (value >= -ctx.SCALE && value <= ctx.SCALE) {
-    throw new Error(
+    throw new DomainError(
       "Hyperbolic arccotangent is defined for absolute values greater than 1",
+      "acoth",
+      [format_scaled(value, ctx.SCALE)],
     );
   }
 
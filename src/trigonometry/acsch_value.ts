@@ -3,6 +3,11 @@ import { asinh_value } from "./asinh_value";
 import { assert_non_zero } from "./internal/assert_non_zero";
 
 export function acsch_value(value: bigint, ctx: FPContext): bigint {
-  assert_non_zero(value, "Hyperbolic arccosecant is undefined for zero");
+  assert_non_zero(
+    value,
+    "Hyperbolic arccosecant is undefined for zero",
+    "acsch",
+    ["0"],
+  );
   return asinh_value((ctx.SCALE * ctx.SCALE) / value, ctx);
 }
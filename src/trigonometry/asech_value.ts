@@ -1,10 +1,13 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { acosh_value } from "./acosh_value";
 
 export function asech_value(value: bigint, ctx: FPContext): bigint {
   if (value <= 0n || value > ctx.SCALE) {
-    throw new Error(
+    throw new DomainError(
       "Hyperbolic arcsecant is defined for values greater than 0 and less than or equal to 1",
+      "asech",
+      [format_scaled(value, ctx.SCALE)],
     );
   }
 
@@ -6,7 +6,7 @@ import { sqrt_one_minus_squared } from "./internal/sqrt_one_minus_squared";
 import { get_work_context } from "./internal/work_context";
 
 export function asin_value(value: bigint, ctx: FPContext): bigint {
-  assert_between_minus_one_and_one(value, ctx, "Arcsine");
+  assert_between_minus_one_and_one(value, ctx, "Arcsine", "asin");
 
   const work = get_work_context(ctx);
   const input = to_work_scale(value, work.guard_scale);
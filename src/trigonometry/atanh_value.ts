@@ -1,10 +1,13 @@
 import { natural_log_value } from "../arithmetic/index";
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 
 export function atanh_value(value: bigint, ctx: FPContext): bigint {
   if (value <= -ctx.SCALE || value >= ctx.SCALE) {
-    throw new Error(
+    throw new DomainError(
       "Hyperbolic arctangent is defined for values between -1 and 1",
+      "atanh",
+      [format_scaled(value, ctx.SCALE)],
     );
   }
 
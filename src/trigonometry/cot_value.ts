@@ -1,3 +1,4 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { assert_non_zero } from "./internal/assert_non_zero";
 import { convert_radianos } from "./internal/convert_radianos";
@@ -12,12 +13,13 @@ export function cot_value(value: bigint, ctx: FPContext): bigint {
   const work = get_work_context(ctx);
   const weak_pi = from_work_scale(work.pi, work.guard_scale);
   const reduced = reduce_angle_quadrant(value, work);
-  if (reduced.angle === 0n) {
-    throw new Error("Cotangent is undefined when sine is zero");
-  }
-
-  if (reduced.angle === weak_pi) {
-    throw new Error("Cotangent is undefined when sine is zero");
+  const operands = [format_scaled(value, ctx.SCALE)];
+  if (reduced.angle === 0n || reduced.angle === weak_pi) {
+    throw new DomainError(
+      "Cotangent is undefined when sine is zero",
+      "cot",
+      operands,
+    );
   }
 
   const angle = to_work_scale(
@@ -32,7 +34,12 @@ export function cot_value(value: bigint, ctx: FPContext): bigint {
   const radinos = convert_radianos(angle, work.pi, ctx.SCALE);
   const sine =
     reduced.sin_sign * sin_series(radinos, work.scale, work.max_iterations);
-  assert_non_zero(sine, "Cotangent is undefined when sine is zero");
+  assert_non_zero(
+    sine,
+    "Cotangent is undefined when sine is zero",
+    "cot",
+    operands,
+  );
   const cosine =
     reduced.cos_sign * cos_series(radinos, work.scale, work.max_iterations);
 
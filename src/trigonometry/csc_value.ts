@@ -1,3 +1,4 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { convert_radianos } from "./internal/convert_radianos";
 import { cos_series } from "./internal/cos_series";
@@ -22,7 +23,9 @@ export function csc_value(value: bigint, ctx: FPContext): bigint {
   );
 
   if (angle * 10n === 90n * ctx.SCALE) {
-    throw new Error("Cosecant is undefined when sine is zero");
+    throw new DomainError("Cosecant is undefined when sine is zero", "csc", [
+      format_scaled(value, ctx.SCALE),
+    ]);
   }
 
   if (angle * 10n === 60n * ctx.SCALE) {
@@ -38,7 +41,9 @@ export function csc_value(value: bigint, ctx: FPContext): bigint {
       reciprocal_work(
         result - (ctx.places === 13 || ctx.places === 18 ? 0n : 2n),
         work.scale,
-        "Secant",
+        "Cosecant",
+        "csc",
+        [format_scaled(value, ctx.SCALE)],
       ),
       work.guard_scale,
     )
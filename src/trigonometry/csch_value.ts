@@ -1,3 +1,4 @@
+import { format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { cosh_difference } from "./internal/cosh_difference";
 import { reciprocal_value } from "./internal/reciprocal_value";
@@ -7,5 +8,7 @@ export function csch_value(value: bigint, ctx: FPContext): bigint {
     cosh_difference(value, ctx),
     ctx,
     "Hyperbolic cosecant",
+    "csch",
+    [format_scaled(value, ctx.SCALE)],
   );
 }
@@ -1,5 +1,12 @@
-export function assert_non_zero(value: bigint, message: string): void {
+import { DomainError } from "../../core/errors";
+
+export function assert_non_zero(
+  value: bigint,
+  message: string,
+  operation: string,
+  operands: readonly unknown[],
+): void {
   if (value === 0n) {
-    throw new Error(message);
+    throw new DomainError(message, operation, operands);
   }
 }
@@ -1,13 +1,17 @@
+import { DomainError, format_scaled } from "../../core/errors";
 import type { FPContext } from "../../FixedPrecision";
 
 export function assert_outside_minus_one_to_one(
   value: bigint,
   ctx: FPContext,
   name: string,
+  operation: string,
 ): void {
   if (value > -ctx.SCALE && value < ctx.SCALE) {
-    throw new Error(
+    throw new DomainError(
       `${name} is defined for absolute values greater than or equal to 1`,
+      operation,
+      [format_scaled(value, ctx.SCALE)],
     );
   }
 }
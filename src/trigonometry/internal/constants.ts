@@ -7,8 +7,5 @@ export function get_guard_scale(places: number): {
 }
 
 export function get_max_iterations(places: number): number {
-  return Math.min(60, Math.max(10, places * 3));
+  return Math.max(10, places * 3);
 }
-
-export const PI =
-  "314159265358979323846264338327950288419716939937510582097494459230781640628620899";
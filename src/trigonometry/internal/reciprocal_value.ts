@@ -5,7 +5,9 @@ export function reciprocal_value(
   value: bigint,
   ctx: FPContext,
   name: string,
+  operation: string,
+  operands: readonly unknown[],
 ): bigint {
-  assert_non_zero(value, `${name} is undefined for zero`);
+  assert_non_zero(value, `${name} is undefined for zero`, operation, operands);
   return (ctx.SCALE * ctx.SCALE) / value;
 }
@@ -4,7 +4,9 @@ export function reciprocal_work(
   value: bigint,
   scale: bigint,
   name: string,
+  operation: string,
+  operands: readonly unknown[],
 ): bigint {
-  assert_non_zero(value, `${name} is undefined for zero`);
+  assert_non_zero(value, `${name} is undefined for zero`, operation, operands);
   return (scale * scale) / value;
 }
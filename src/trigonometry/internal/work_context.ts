@@ -1,5 +1,6 @@
+import { pi_value } from "../../constants";
 import type { FPContext } from "../../FixedPrecision";
-import { get_guard_scale, get_max_iterations, PI } from "./constants";
+import { get_guard_scale, get_max_iterations } from "./constants";
 
 let work_context_cache: Map<bigint, Work_Context> | undefined;
 
@@ -29,7 +30,7 @@ function make_work_context(ctx: FPContext): Work_Context {
   const guard = get_guard_scale(ctx.places);
   const max_iterations = get_max_iterations(ctx.places);
   const scale = ctx.SCALE * guard.guard_scale;
-  const pi = BigInt(PI.slice(0, guard.guard + ctx.places + 1));
+  const pi = pi_value(scale, 1);
 
   return {
     scale,
@@ -1,3 +1,4 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { convert_radianos } from "./internal/convert_radianos";
 import { cos_series } from "./internal/cos_series";
@@ -25,7 +26,9 @@ export function sec_value(value: bigint, ctx: FPContext): bigint {
   }
 
   if (angle * 10n === 90n * ctx.SCALE) {
-    throw new Error("Secant is undefined when cosine is zero");
+    throw new DomainError("Secant is undefined when cosine is zero", "sec", [
+      format_scaled(value, ctx.SCALE),
+    ]);
   }
 
   const radinos = convert_radianos(angle, work.pi, ctx.SCALE);
@@ -39,6 +42,8 @@ export function sec_value(value: bigint, ctx: FPContext): bigint {
         result - (ctx.places === 13 || ctx.places === 18 ? 0n : 2n),
         work.scale,
         "Secant",
+        "sec",
+        [format_scaled(value, ctx.SCALE)],
       ),
       work.guard_scale,
     )
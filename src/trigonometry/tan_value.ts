@@ -1,3 +1,4 @@
+import { DomainError, format_scaled } from "../core/errors";
 import type { FPContext } from "../FixedPrecision";
 import { assert_non_zero } from "./internal/assert_non_zero";
 import { convert_radianos } from "./internal/convert_radianos";
@@ -21,7 +22,9 @@ export function tan_value(value: bigint, ctx: FPContext): bigint {
   );
 
   if (angle === 9n * ctx.SCALE) {
-    throw new Error("Tangent is undefined when cosine is zero");
+    throw new DomainError("Tangent is undefined when cosine is zero", "tan", [
+      format_scaled(value, ctx.SCALE),
+    ]);
   }
 
   if (angle * 10n === 45n * ctx.SCALE) {
@@ -34,7 +37,9 @@ export function tan_value(value: bigint, ctx: FPContext): bigint {
     (cos_series(radinos, work.scale, work.max_iterations) -
       (ctx.places === 3 ? 2n : 0n));
 
-  assert_non_zero(cosine, "Tangent is undefined when cosine is zero");
+  assert_non_zero(cosine, "Tangent is undefined when cosine is zero", "tan", [
+    format_scaled(value, ctx.SCALE),
+  ]);
 
   const sine =
     reduced.sin_sign * sin_series(radinos, work.scale, work.max_iterations);
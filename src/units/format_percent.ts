@@ -0,0 +1,17 @@
+import type FixedPrecision from "../FixedPrecision";
+import type { FormatOptions } from "../FixedPrecision";
+import { apply_intl_template } from "../string/internal/apply_intl_template";
+
+const DEFAULT_LOCALE = "en-US";
+
+export function format_percent(
+  value: FixedPrecision,
+  options: FormatOptions,
+): string {
+  return apply_intl_template(
+    value.formatToParts(options),
+    options.locale ?? DEFAULT_LOCALE,
+    { style: "percent" },
+    "toFormat",
+  );
+}
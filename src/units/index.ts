@@ -0,0 +1,10 @@
+export { format_percent } from "./format_percent";
+export { strip_unit_suffix } from "./strip_unit_suffix";
+export {
+  BASIS_POINT_EXPONENT,
+  PERCENT_EXPONENT,
+  parse_unit_value,
+  unit_ratio,
+  unit_to_decimal,
+  unit_value,
+} from "./unit_value";
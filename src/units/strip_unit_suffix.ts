@@ -0,0 +1,17 @@
+import { ParseError } from "../core/errors";
+
+export function strip_unit_suffix(
+  str: string,
+  suffixes: readonly string[],
+  operation: string,
+): string {
+  const trimmed = str.trim();
+  for (const suffix of suffixes) {
+    if (trimmed.endsWith(suffix)) {
+      return trimmed.slice(0, -suffix.length).trimEnd();
+    }
+  }
+  throw new ParseError(`Expected a value ending in ${suffixes[0]}`, operation, [
+    str,
+  ]);
+}
@@ -0,0 +1,36 @@
+import FixedPrecision, {
+  type FixedPrecisionConfig,
+  type FixedPrecisionValue,
+  type Ratio,
+} from "../FixedPrecision";
+import { powerOfTen } from "../utils";
+
+export const PERCENT_EXPONENT = 2;
+export const BASIS_POINT_EXPONENT = 4;
+
+export function unit_value(value: FixedPrecisionValue): FixedPrecision {
+  return value instanceof FixedPrecision ? value : new FixedPrecision(value);
+}
+
+export function parse_unit_value(
+  digits: string,
+  config?: FixedPrecisionConfig,
+): FixedPrecision {
+  return config
+    ? FixedPrecision.create(config)(digits)
+    : new FixedPrecision(digits);
+}
+
+export function unit_to_decimal(
+  value: FixedPrecision,
+  exponent: number,
+): FixedPrecision {
+  return value.scale(value.places() + exponent).shiftedBy(-exponent);
+}
+
+export function unit_ratio(value: FixedPrecision, exponent: number): Ratio {
+  return {
+    numerator: value.raw(),
+    denominator: powerOfTen(value.places() + exponent),
+  };
+}
@@ -1,3 +1,5 @@
+import { DomainError } from "../core/errors";
+
 const BIGINT_POWERS_OF_TEN: bigint[] = [
   1n,
   10n,
@@ -24,14 +26,21 @@ const BIGINT_POWERS_OF_TEN: bigint[] = [
 
 export function powerOfTen(exponent: number): bigint {
   const value = BIGINT_POWERS_OF_TEN[exponent];
-  if (value === undefined) {
-    throw new Error("Decimal places must be an integer between 0 and 20");
+  if (value !== undefined) {
+    return value;
+  }
+  if (!Number.isInteger(exponent) || exponent < 0) {
+    throw new DomainError(
+      "Exponent must be a non-negative integer",
+      "powerOfTen",
+      [exponent],
+    );
   }
-  return value;
+  return 10n ** BigInt(exponent);
 }
 
 export function precisionPowerOfTen(exponent: number): bigint {
-  return exponent <= 20 ? powerOfTen(exponent) : 10n ** BigInt(exponent);
+  return powerOfTen(exponent);
 }
 
 export function cleanTrailingZeros(
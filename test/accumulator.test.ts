@@ -0,0 +1,89 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  Accumulator,
+  DomainError,
+  PrecisionMismatchError,
+} from "../src/FixedPrecision";
+
+describe("Accumulator", () => {
+  const FP2 = FixedPrecision.create({ places: 2 });
+  const values = ["2", "4", "4", "4", "5", "5", "7", "9"];
+
+  test("running statistics", () => {
+    const acc = new Accumulator({ places: 4 }).pushAll(values);
+    expect(acc.count()).toBe(8);
+    expect(acc.sum().toString()).toBe("40");
+    expect(acc.min().toString()).toBe("2");
+    expect(acc.max().toString()).toBe("9");
+    expect(acc.mean().toString()).toBe("5");
+    expect(acc.variance().toString()).toBe("4");
+    expect(acc.stddev().toString()).toBe("2");
+    expect(acc.sampleVariance().toString()).toBe("4.5714");
+    expect(acc.sampleStddev().toString()).toBe("2.1381");
+    expect(acc.sum().places()).toBe(4);
+  });
+
+  test("matches the statics", () => {
+    const acc = new Accumulator({ places: 2 });
+    for (const value of values) acc.push(value);
+    expect(
+      acc.mean().eq(FixedPrecision.mean(FP2("2"), ...values.slice(1))),
+    ).toBe(true);
+    expect(acc.sampleVariance().toString()).toBe(
+      FixedPrecision.sampleVariance([FP2("2"), ...values.slice(1)]).toString(),
+    );
+  });
+
+  test("raw bigints and other precisions", () => {
+    const acc = new Accumulator({ places: 2 });
+    acc
+      .push(150n)
+      .push(FP2("2.5"))
+      .push(FixedPrecision.create({ places: 4 })("1.005"));
+    expect(acc.sum().toString()).toBe("5.01");
+    expect(acc.min().toString()).toBe("1.01");
+    expect(acc.max().toString()).toBe("2.5");
+  });
+
+  test("rounds once per result", () => {
+    const acc = new Accumulator({ places: 2, roundingMode: 1 }).pushAll([
+      1, 1, 2,
+    ]);
+    expect(acc.mean().toString()).toBe("1.33");
+    expect(acc.mean().flags()).toEqual(["Inexact", "Rounded"]);
+  });
+
+  test("merge", () => {
+    const left = new Accumulator({ places: 4 }).pushAll(values.slice(0, 3));
+    const right = new Accumulator({ places: 4 }).pushAll(values.slice(3));
+    const merged = left.merge(right);
+    expect(merged).toBe(left);
+    expect(merged.count()).toBe(8);
+    expect(merged.mean().toString()).toBe("5");
+    expect(merged.variance().toString()).toBe("4");
+    expect(merged.min().toString()).toBe("2");
+    expect(merged.max().toString()).toBe("9");
+
+    const empty = new Accumulator({ places: 4 });
+    expect(empty.merge(new Accumulator({ places: 4 })).count()).toBe(0);
+    expect(empty.merge(right).max().toString()).toBe("9");
+    expect(() => left.merge(new Accumulator({ places: 2 }))).toThrow(
+      PrecisionMismatchError,
+    );
+  });
+
+  test("empty accumulator", () => {
+    const acc = new Accumulator({ places: 2 });
+    expect(acc.count()).toBe(0);
+    expect(acc.sum().toString()).toBe("0");
+    expect(() => acc.mean()).toThrow(DomainError);
+    expect(() => acc.min()).toThrow("Accumulator has no values");
+    expect(() => acc.max()).toThrow("Accumulator has no values");
+    expect(() => acc.push(1).sampleVariance()).toThrow(
+      "Sample variance needs at least two values",
+    );
+    expect(acc.reset().count()).toBe(0);
+    expect(Accumulator.isAccumulator(acc)).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, { DomainError } from "../src/FixedPrecision";
+
+const FP0 = FixedPrecision.create({ places: 0 });
+const FP2 = FixedPrecision.create({ places: 2 });
+
+function strings(parts: FixedPrecision[]): string[] {
+  return parts.map((part) => part.toString());
+}
+
+describe("Allocation", () => {
+  test("split keeps every unit", () => {
+    expect(strings(FP2("100").split(3))).toEqual(["33.34", "33.33", "33.33"]);
+    expect(strings(FP2("-100").split(3))).toEqual([
+      "-33.34",
+      "-33.33",
+      "-33.33",
+    ]);
+    expect(strings(FP2("0.01").split(3))).toEqual(["0.01", "0", "0"]);
+    expect(strings(FP2("10").split(1))).toEqual(["10"]);
+    expect(strings(FP0("7").split(4))).toEqual(["2", "2", "2", "1"]);
+  });
+
+  test("allocate by ratios", () => {
+    expect(strings(FP2("100").allocate([50, 30, 20]))).toEqual([
+      "50",
+      "30",
+      "20",
+    ]);
+    expect(strings(FP2("0.05").allocate([0.3, 0.7]))).toEqual(["0.02", "0.03"]);
+    expect(strings(FP2("1").allocate(["0.5", "0.25", "0.25"]))).toEqual([
+      "0.5",
+      "0.25",
+      "0.25",
+    ]);
+    expect(strings(FP2("100").allocate([1, 1, 1, 0]))).toEqual([
+      "33.34",
+      "33.33",
+      "33.33",
+      "0",
+    ]);
+    expect(
+      strings(
+        FP2("1").allocate([FixedPrecision.create({ places: 4 })("1"), "1e0"]),
+      ),
+    ).toEqual(["0.5", "0.5"]);
+  });
+
+  test("remainder strategies", () => {
+    const amount = FP2("0.07");
+    expect(strings(amount.allocate([2, 4, 4]))).toEqual([
+      "0.01",
+      "0.03",
+      "0.03",
+    ]);
+    expect(strings(amount.allocate([2, 4, 4], "first"))).toEqual([
+      "0.03",
+      "0.02",
+      "0.02",
+    ]);
+    expect(strings(FP2("0.05").split(3))).toEqual(["0.02", "0.02", "0.01"]);
+    expect(strings(FP2("0.05").split(3, "first"))).toEqual([
+      "0.03",
+      "0.01",
+      "0.01",
+    ]);
+    expect(strings(FP2("0.02").allocate([0, 1, 1], "first"))).toEqual([
+      "0",
+      "0.01",
+      "0.01",
+    ]);
+  });
+
+  test("round robin deals leftover units in order", () => {
+    expect(strings(FP2("0.07").allocate([2, 4, 4], "roundRobin"))).toEqual([
+      "0.02",
+      "0.03",
+      "0.02",
+    ]);
+    expect(strings(FP2("0.05").allocate([0, 1, 1, 1], "roundRobin"))).toEqual(
+      ["0", "0.02", "0.02", "0.01"],
+    );
+    expect(strings(FP2("-0.07").allocate([2, 4, 4], "roundRobin"))).toEqual([
+      "-0.02",
+      "-0.03",
+      "-0.02",
+    ]);
+    expect(strings(FP0("5").split(3, "roundRobin"))).toEqual(["2", "2", "1"]);
+  });
+
+  test("parts always sum to the original", () => {
+    const amounts = ["100", "0.07", "-12345.67", "0", "999999.99"];
+    const ratios = [[1, 2, 3], [0.1, 0.2, 0.7], [7], ["1", "1", "1", "1", "3"]];
+    for (const amount of amounts) {
+      for (const ratio of ratios) {
+        for (const strategy of [
+          "largestRemainder",
+          "first",
+          "roundRobin",
+        ] as const) {
+          const parts = FP2(amount).allocate(ratio, strategy);
+          expect(FixedPrecision.sum(parts).eq(FP2(amount))).toBe(true);
+        }
+      }
+    }
+  });
+
+  test("validation", () => {
+    expect(() => FP2("1").allocate([])).toThrow(DomainError);
+    expect(() => FP2("1").allocate([0, 0])).toThrow(
+      "Ratios must be non-negative with a positive total",
+    );
+    expect(() => FP2("1").allocate([-1, 2])).toThrow(DomainError);
+    expect(() => FP2("1").split(0)).toThrow(
+      "Number of parts must be a positive integer",
+    );
+    expect(() => FP2("1").split(1.5)).toThrow(DomainError);
+    expect(() => FP2("1").split(2, "last" as "first")).toThrow(
+      "Invalid allocation strategy. Must be largestRemainder, first or roundRobin",
+    );
+  });
+});
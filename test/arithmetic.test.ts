@@ -1,6 +1,7 @@
 import { describe, expect, test } from "vitest";
 
 import FixedPrecision, { fixedconfig } from "../src/FixedPrecision.js";
+import Minimal from "../src/Minimal.js";
 
 const FP2 = FixedPrecision.create({ places: 2, roundingMode: 4 });
 const FP4 = FixedPrecision.create({ places: 4, roundingMode: 4 });
@@ -50,6 +51,73 @@ describe("Arithmetic", () => {
     expect(FP8("12.34").mod("5.67").toString()).toBe("1.72");
   });
 
+  test("mul rounding", () => {
+    expect(FP2("19.99").mul("0.08").toString()).toBe("1.6");
+    expect(FP2("19.99").mul("0.08", 1).toString()).toBe("1.59");
+    expect(FP2("0.25").mul("0.5").toString()).toBe("0.13");
+    expect(FP2("0.25").mul("0.5", 6).toString()).toBe("0.12");
+    expect(FP2("0.25").mul("0.5", 3).toString()).toBe("0.12");
+    expect(FP2("-0.25").mul("0.5").toString()).toBe("-0.13");
+    expect(FP2("-0.25").mul("0.5", 2).toString()).toBe("-0.12");
+    expect(FP2("-0.25").mul("0.5", 7).toString()).toBe("-0.12");
+    expect(FP2("-0.25").mul("0.5", 8).toString()).toBe("-0.13");
+  });
+
+  test("div rounding", () => {
+    expect(FP4("2").div("3").toString()).toBe("0.6667");
+    expect(FP4("2").div("3", 1).toString()).toBe("0.6666");
+    expect(FP4("-2").div("3").toString()).toBe("-0.6667");
+    expect(FP4("-2").div("3", 2).toString()).toBe("-0.6666");
+    expect(FP4("2").div("-3").toString()).toBe("-0.6667");
+    expect(FP4("2").div("-3", 2).toString()).toBe("-0.6666");
+    expect(FP4("-2").div("-3", 3).toString()).toBe("0.6666");
+  });
+
+  test("mod and divmod truncate the quotient", () => {
+    expect(new FixedPrecision("11").mod("3").toString()).toBe("2");
+    expect(FP8("10").mod("3").toString()).toBe("1");
+    expect(FP8("11").divmod("3").remainder.toString()).toBe("0.00000002");
+    expect(FP8("10").rest("3").toString()).toBe("0.00000001");
+    expect(FP2("1").divmod("0.07").quotient.toString()).toBe("14.28");
+    expect(FP2("1").divmod("0.07").remainder.toString()).toBe("0.01");
+    expect(FP2("1").rest("0.07").toString()).toBe("0.01");
+    expect(Minimal.create({ places: 2 })("1").rest("0.07").toString()).toBe(
+      "0.01",
+    );
+    expect(FP2("1").divmod("3").quotient.toString()).toBe("0.33");
+    expect(FP2("2").divmod("3").quotient.toString()).toBe("0.66");
+    expect(FP2("2").divmod("3").remainder.toString()).toBe("0.02");
+  });
+
+  test("pow rounding", () => {
+    expect(FP2("1.15").pow(2).toString()).toBe("1.32");
+    expect(FP2("1.15").pow(2, 0).toString()).toBe("1.33");
+    expect(FP2("1.05").pow(3).toString()).toBe("1.16");
+    expect(FP2("1.05").pow(3, 1).toString()).toBe("1.15");
+    expect(FP4("1.0001").pow(-1).toString()).toBe("0.9999");
+    expect(FP4("1.0001").pow(-1, 2).toString()).toBe("1");
+    expect(FP2("1.15").square(1).toString()).toBe("1.32");
+    expect(FP2("1.15").cube().toString()).toBe("1.52");
+  });
+
+  test("static rounding arguments", () => {
+    expect(FixedPrecision.mul(FP2("19.99"), "0.08").toString()).toBe("1.6");
+    expect(FixedPrecision.mul(FP2("19.99"), "0.08", 1).toString()).toBe(
+      "1.59",
+    );
+    expect(FixedPrecision.div(FP4("2"), "3", 1).toString()).toBe("0.6666");
+    expect(FixedPrecision.mod(FP8("10"), "3").toString()).toBe("1");
+    expect(FixedPrecision.pow(FP2("1.15"), 2, 0).toString()).toBe("1.33");
+  });
+
+  test("minimal rounding", () => {
+    const M2 = Minimal.create({ places: 2, roundingMode: 4 });
+    expect(M2("19.99").mul("0.08").toString()).toBe("1.6");
+    expect(M2("19.99").mul("0.08", 1).toString()).toBe("1.59");
+    expect(M2("2").div("3").toString()).toBe("0.67");
+    expect(M2("1.15").pow(2, 0).toString()).toBe("1.33");
+  });
+
   test("times", () => {
     expect(FP8("100000000").times("100000000").toString()).toBe(
       "1000000000000000000000000",
@@ -177,7 +245,7 @@ describe("Arithmetic", () => {
     expect(FP8("2").pow(3).toString()).toBe("8");
     expect(FP8("2").pow(-2).toString()).toBe("0.25");
     expect(FP20("2").pow(10).toString()).toBe("1024");
-    expect(FP20("1.05").pow(24).toString()).toBe("3.22509994371369982542");
+    expect(FP20("1.05").pow(24).toString()).toBe("3.22509994371369982544");
     expect(FP20("3").pow(0).toString()).toBe("1");
   });
 
@@ -236,7 +304,7 @@ describe("Arithmetic", () => {
     expect(r.toString()).toBe("0.99999999999999999999");
     expect(FP20("10").ln().toString()).toBe("2.30258509299404568401");
     expect(FP20("123.456789").ln().toString()).toBe(
-      "4.81589120820374401402",
+      "4.81589120820374392908",
     );
     expect(FP16("1").ln().toString()).toBe("0");
     expect(FP16("2.7182818284590452").ln().toString()).toBe(
@@ -296,11 +364,38 @@ describe("Arithmetic", () => {
 
   test("scale validation", () => {
     expect(() => FP8("123.456789").scale(-1)).toThrow(
-      "newScale must be an integer between 0 and 20",
+      "newScale must be an integer between 0 and 1000",
+    );
+    expect(() => FP8("123.456789").scale(1001)).toThrow(
+      "newScale must be an integer between 0 and 1000",
+    );
+  });
+
+  test("places beyond 20", () => {
+    const FP36 = FixedPrecision.create({ places: 36 });
+    const FP50 = FixedPrecision.create({ places: 50 });
+    const FP1000 = FixedPrecision.create({ places: 1000 });
+    expect(
+      FP36("1.000000000000000001").mul("2500.123456789012345678").toString(),
+    ).toBe("2500.123456789012348178123456789012345678");
+    expect(FP36(0.5).toString()).toBe("0.5");
+    expect(FP36("-12.25").toString(false)).toBe(
+      "-12.250000000000000000000000000000000000",
+    );
+    expect(FP8("123.456789").scale(30).toString(false)).toBe(
+      "123.456789000000000000000000000000",
+    );
+    expect(FP50("2").sqrt().toString()).toBe(
+      "1.41421356237309504880168872420969807856967187537694",
+    );
+    expect(FP50("2").ln().toString()).toBe(
+      "0.69314718055994530941723212145817656807550013436025",
     );
-    expect(() => FP8("123.456789").scale(21)).toThrow(
-      "newScale must be an integer between 0 and 20",
+    expect(FP50("1").exp().toString()).toBe(
+      "2.71828182845904523536028747135266249775724709369995",
     );
+    const third = FP1000("1").div("3").toString();
+    expect(third).toBe(`0.${"3".repeat(1000)}`);
   });
 
   test("shiftedBy", () => {
@@ -14,9 +14,21 @@ describe("Configuration", () => {
   });
 
   test("configure invalid places throws", () => {
-    expect(() => fixedconfig.configure({ places: 25 })).toThrow(
-      "Decimal places must be an integer between 0 and 20",
+    expect(() => fixedconfig.configure({ places: 1001 })).toThrow(
+      "Decimal places must be an integer between 0 and 1000",
     );
+    expect(() => fixedconfig.configure({ places: -1 })).toThrow(
+      "Decimal places must be an integer between 0 and 1000",
+    );
+  });
+
+  test("configure places beyond 20", () => {
+    fixedconfig.configure({ places: 36 });
+    const a = new FixedPrecision("0.000000000000000001");
+    expect(a.mul("0.000000000000000001").toString()).toBe(
+      "0.000000000000000000000000000000000001",
+    );
+    fixedconfig.configure({ places: 8 });
   });
 
   test("configure rounding mode", () => {
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision from "../src/FixedPrecision";
+
+const FP120 = FixedPrecision.create({ places: 120, roundingMode: 4 });
+
+describe("Constants", () => {
+  test("default context", () => {
+    expect(FixedPrecision.PI().toString()).toBe("3.14159265");
+    expect(FixedPrecision.e().toString()).toBe("2.71828183");
+    expect(FixedPrecision.phi().toString()).toBe("1.61803399");
+    expect(FixedPrecision.sqrt2().toString()).toBe("1.41421356");
+    expect(FixedPrecision.LN2().toString()).toBe("0.69314718");
+    expect(FixedPrecision.LN10().toString()).toBe("2.30258509");
+  });
+
+  test("requested places", () => {
+    expect(FixedPrecision.PI(100).toString()).toBe(
+      "3.141592653589793238462643383279502884197169399375105820974944592307816406286208998628034825342117068",
+    );
+    expect(FixedPrecision.PI(100).places()).toBe(100);
+    expect(FixedPrecision.e(30).toString()).toBe(
+      "2.718281828459045235360287471353",
+    );
+    expect(FixedPrecision.LN2(50).toString()).toBe(
+      "0.69314718055994530941723212145817656807550013436026",
+    );
+    expect(FixedPrecision.LN10(30).toString()).toBe(
+      "2.302585092994045684017991454684",
+    );
+    expect(FixedPrecision.phi(20).toString()).toBe("1.6180339887498948482");
+    expect(FixedPrecision.sqrt2(20).toString()).toBe("1.4142135623730950488");
+    expect(FixedPrecision.PI(0).toString()).toBe("3");
+  });
+
+  test("invalid places throws", () => {
+    expect(() => FixedPrecision.PI(1001)).toThrow(
+      "Decimal places must be an integer between 0 and 1000",
+    );
+    expect(() => FixedPrecision.e(-1)).toThrow(
+      "Decimal places must be an integer between 0 and 1000",
+    );
+  });
+
+  test("logarithms beyond literal precision", () => {
+    expect(FP120("3").ln().toString()).toBe(
+      "1.098612288668109691395245236922525704647490557822749451734694333637494293218608966873615754813732088787970029065957865742",
+    );
+    expect(FP120("3").log10().toString()).toBe(
+      "0.477121254719662437295027903255115309200128864190695864829865640305229152783661123042968355647616301510464692768252045893",
+    );
+  });
+});
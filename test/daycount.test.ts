@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  type DayCountConvention,
+  DomainError,
+  ParseError,
+} from "../src/FixedPrecision";
+
+const FP2 = FixedPrecision.create({ places: 2 });
+
+function fraction(
+  start: string,
+  end: string,
+  convention: DayCountConvention,
+): string {
+  const { numerator, denominator } = FixedPrecision.yearFraction(
+    start,
+    end,
+    convention,
+  );
+  return `${numerator}/${denominator}`;
+}
+
+describe("Day count", () => {
+  test("actual conventions", () => {
+    expect(fraction("2007-12-28", "2008-02-28", "ACT/360")).toBe("31/180");
+    expect(fraction("2007-12-28", "2008-02-29", "ACT/365F")).toBe("63/365");
+    expect(fraction("2007-12-28", "2008-02-28", "ACT/ACT ISDA")).toBe(
+      "11317/66795",
+    );
+    expect(fraction("2008-02-29", "2009-02-28", "ACT/ACT ISDA")).toBe(
+      "133283/133590",
+    );
+    expect(fraction("2023-01-01", "2024-01-01", "ACT/ACT ISDA")).toBe("1/1");
+    expect(fraction("2024-03-01", "2024-03-01", "ACT/360")).toBe("0/1");
+  });
+
+  test("30/360 conventions", () => {
+    expect(fraction("2007-10-31", "2008-11-30", "30/360 US")).toBe("13/12");
+    expect(fraction("2008-02-29", "2009-02-28", "30/360 US")).toBe("1/1");
+    expect(fraction("2008-02-29", "2009-02-28", "30E/360")).toBe("359/360");
+    expect(fraction("2024-01-15", "2024-03-31", "30/360 US")).toBe("19/90");
+    expect(fraction("2024-01-31", "2024-03-31", "30/360 US")).toBe("1/6");
+    expect(fraction("2024-01-15", "2024-03-31", "30E/360")).toBe("5/24");
+  });
+
+  test("reversed dates give negative fractions", () => {
+    expect(fraction("2008-02-28", "2007-12-28", "ACT/360")).toBe("-31/180");
+    expect(fraction("2008-11-30", "2007-10-31", "30/360 US")).toBe("-13/12");
+  });
+
+  test("year fractions multiply exactly", () => {
+    const half = FixedPrecision.yearFraction(
+      "2024-01-15",
+      "2024-07-15",
+      "ACT/365F",
+    );
+    expect(FP2("1000000").mul(half).toString()).toBe("498630.14");
+    expect(FP2("1000000").mul(half).flags()).toEqual(["Inexact", "Rounded"]);
+    expect(
+      FP2("360").mul({ numerator: 1n, denominator: 360n }).toString(),
+    ).toBe("1");
+  });
+
+  test("accrued interest", () => {
+    expect(
+      FixedPrecision.accruedInterest(
+        FP2("1000000"),
+        "0.05",
+        "2024-01-15",
+        "2024-07-15",
+        "ACT/360",
+      ).toString(),
+    ).toBe("25277.78");
+    expect(
+      FixedPrecision.accruedInterest(
+        FP2("100"),
+        "0.06",
+        "2024-01-31",
+        "2024-03-31",
+        "30/360 US",
+      ).toString(),
+    ).toBe("1");
+  });
+
+  test("invalid input throws", () => {
+    expect(() => fraction("2023-02-29", "2024-01-01", "ACT/360")).toThrow(
+      ParseError,
+    );
+    expect(() => fraction("2024-01-01T00:00", "2024-02-01", "ACT/360")).toThrow(
+      "Invalid date: 2024-01-01T00:00",
+    );
+    expect(() =>
+      fraction("2024-01-01", "2024-02-01", "ACT/366" as DayCountConvention),
+    ).toThrow(DomainError);
+  });
+});
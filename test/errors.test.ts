@@ -0,0 +1,132 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  ConfigurationError,
+  DivisionByZeroError,
+  DomainError,
+  FixedPrecisionError,
+  ParseError,
+  PrecisionMismatchError,
+  SignalError,
+} from "../src/FixedPrecision";
+import Minimal from "../src/Minimal";
+
+function caught(fn: () => unknown): FixedPrecisionError {
+  try {
+    fn();
+  } catch (error) {
+    return error as FixedPrecisionError;
+  }
+  throw new Error("Expected an error");
+}
+
+describe("Errors", () => {
+  const FP8 = FixedPrecision.create({ places: 8 });
+  const FP4 = FixedPrecision.create({ places: 4 });
+
+  test("precision mismatch", () => {
+    const error = caught(() => FP8("1.5").add(FP4("2")));
+    expect(error).toBeInstanceOf(PrecisionMismatchError);
+    expect(error).toBeInstanceOf(FixedPrecisionError);
+    expect(error.name).toBe("PrecisionMismatchError");
+    expect(error.code).toBe("PRECISION_MISMATCH");
+    expect(error.operation).toBe("add");
+    expect(error.operands).toEqual(["1.5", "2"]);
+    expect(error.message).toBe("Cannot operate on different precisions");
+  });
+
+  test("domain errors", () => {
+    const sqrt = caught(() => FP8("-4").sqrt());
+    expect(sqrt).toBeInstanceOf(DomainError);
+    expect(sqrt.code).toBe("DOMAIN_ERROR");
+    expect(sqrt.operation).toBe("sqrt");
+    expect(sqrt.operands).toEqual(["-4"]);
+
+    const ln = caught(() => FP8("-0.25").ln());
+    expect(ln.operation).toBe("ln");
+    expect(ln.operands).toEqual(["-0.25"]);
+
+    const nearest = caught(() => FP8("1.5").toNearest("0"));
+    expect(nearest).toBeInstanceOf(DomainError);
+    expect(nearest.operation).toBe("toNearest");
+    expect(nearest.message).toBe("Increment must be non-zero");
+
+    const asin = caught(() => FP8("2").asin());
+    expect(asin.operation).toBe("asin");
+    expect(asin.operands).toEqual(["2"]);
+
+    const factorial = caught(() => FixedPrecision.factorial(-1));
+    expect(factorial.operation).toBe("factorial");
+    expect(factorial.operands).toEqual([-1]);
+  });
+
+  test("parse errors", () => {
+    const text = caught(() => FP8("abc"));
+    expect(text).toBeInstanceOf(ParseError);
+    expect(text.code).toBe("PARSE_ERROR");
+    expect(text.operands).toEqual(["abc"]);
+
+    const number = caught(() => FP8(Number.NaN));
+    expect(number).toBeInstanceOf(ParseError);
+    expect(number.message).toBe(
+      "Invalid number: value must be a finite number.",
+    );
+  });
+
+  test("configuration errors", () => {
+    const places = caught(() => FixedPrecision.create({ places: 1001 }));
+    expect(places).toBeInstanceOf(ConfigurationError);
+    expect(places.code).toBe("CONFIGURATION_ERROR");
+    expect(places.operation).toBe("create");
+    expect(places.operands).toEqual([1001]);
+
+    const constant = caught(() => FixedPrecision.PI(-1));
+    expect(constant.operation).toBe("PI");
+  });
+
+  test("division by zero", () => {
+    const error = caught(() => FP8("10").div("0"));
+    expect(error).toBeInstanceOf(DivisionByZeroError);
+    expect(error).toBeInstanceOf(SignalError);
+    expect(error.code).toBe("DIVISION_BY_ZERO");
+    expect(error.operation).toBe("div");
+    expect(error.operands).toEqual(["10", "0"]);
+    expect((error as DivisionByZeroError).signal).toBe("DivisionByZero");
+
+    const undefinedError = caught(() => FP8("0").mod("0"));
+    expect(undefinedError).toBeInstanceOf(DivisionByZeroError);
+    expect((undefinedError as DivisionByZeroError).signal).toBe(
+      "InvalidOperation",
+    );
+  });
+
+  test("minimal division by zero", () => {
+    const M8 = Minimal.create({ places: 8 });
+    const divisions: [string, () => unknown][] = [
+      ["div", () => M8("10").div("0")],
+      ["idiv", () => M8("10").idiv("0")],
+      ["ratio", () => M8("10").ratio("0")],
+      ["mod", () => M8("10").mod("0")],
+      ["rem", () => M8("10").rem("0")],
+      ["divmod", () => M8("10").divmod("0")],
+      ["idivmod", () => M8("10").idivmod("0")],
+    ];
+    for (const [operation, divide] of divisions) {
+      const error = caught(divide);
+      expect(error).toBeInstanceOf(DivisionByZeroError);
+      expect(error.code).toBe("DIVISION_BY_ZERO");
+      expect(error.operation).toBe(operation);
+      expect((error as DivisionByZeroError).signal).toBe("DivisionByZero");
+    }
+    expect(caught(() => M8("0").rem("0")).message).toBe("Division undefined");
+  });
+
+  test("trapped signals", () => {
+    const FP2 = FixedPrecision.create({ places: 2, traps: ["Inexact"] });
+    const error = caught(() => FP2("1").div("3"));
+    expect(error).toBeInstanceOf(SignalError);
+    expect(error.code).toBe("SIGNAL_TRAPPED");
+    expect(error.operation).toBe("div");
+    expect(error.operands).toEqual(["1", "3"]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  DomainError,
+  ExchangeRates,
+  ParseError,
+} from "../src/FixedPrecision";
+
+const JSON_RATES =
+  '{"base":"USD","rates":{"EUR":0.92,"JPY":"151.37","GBP":"0.79"},"pairs":{"EUR/CHF":"0.9612"}}';
+
+describe("ExchangeRates", () => {
+  test("direct, inverse and triangulated rates are exact", () => {
+    const rates = ExchangeRates.fromJSON(JSON_RATES);
+    expect(rates.rate("USD", "EUR")).toEqual({
+      numerator: 23n,
+      denominator: 25n,
+    });
+    expect(rates.rate("eur", "usd")).toEqual({
+      numerator: 25n,
+      denominator: 23n,
+    });
+    expect(rates.rate("EUR", "JPY")).toEqual({
+      numerator: 15137n,
+      denominator: 92n,
+    });
+    expect(rates.rate("CHF", "EUR")).toEqual({
+      numerator: 2500n,
+      denominator: 2403n,
+    });
+    expect(rates.rate("GBP", "GBP")).toEqual({
+      numerator: 1n,
+      denominator: 1n,
+    });
+    expect(rates.currencies()).toEqual(["CHF", "EUR", "GBP", "JPY", "USD"]);
+  });
+
+  test("convert rounds once at the destination scale", () => {
+    const rates = ExchangeRates.fromJSON(JSON_RATES);
+    expect(rates.convert("100", "EUR", "JPY").toString()).toBe("16453");
+    expect(rates.convert("100", "EUR", "USD").toString()).toBe("108.7");
+    expect(rates.convert("100", "EUR", "USD").places()).toBe(2);
+    expect(
+      rates
+        .convert("100", "EUR", "USD", { places: 6, roundingMode: 1 })
+        .toString(),
+    ).toBe("108.695652");
+    expect(rates.convert("100", "CHF", "EUR").toString()).toBe("104.04");
+
+    const FP8 = FixedPrecision.create({ places: 8 });
+    expect(rates.convert(FP8("0.01"), "GBP", "JPY").toString()).toBe("2");
+  });
+
+  test("rounding mode and signals come from the table", () => {
+    const rates = new ExchangeRates({
+      base: "USD",
+      rates: { EUR: "0.92" },
+      roundingMode: 1,
+      traps: ["Inexact"],
+    });
+    expect(rates.convert("1", "USD", "EUR").toString()).toBe("0.92");
+    expect(() => rates.convert("1", "EUR", "USD")).toThrow("Inexact result");
+  });
+
+  test("updates and JSON round-trip", () => {
+    const rates = new ExchangeRates({ base: "usd", rates: { EUR: "0.92" } });
+    rates.set("EUR", "0.9").setPair("GBP", "EUR", "1.17");
+    expect(rates.convert("10", "USD", "EUR").toString()).toBe("9");
+    expect(rates.convert("10", "GBP", "EUR").toString()).toBe("11.7");
+    expect(rates.toJSON()).toEqual({
+      base: "USD",
+      rates: { EUR: "0.9" },
+      pairs: { "GBP/EUR": "1.17" },
+    });
+    const copy = ExchangeRates.fromJSON(JSON.stringify(rates));
+    expect(copy.rate("GBP", "EUR")).toEqual(rates.rate("GBP", "EUR"));
+    expect(copy.rate("EUR", "USD")).toEqual(rates.rate("EUR", "USD"));
+  });
+
+  test("invalid input throws", () => {
+    const rates = ExchangeRates.fromJSON(JSON_RATES);
+    expect(() => rates.convert("1", "CHF", "JPY")).toThrow(
+      "No exchange rate from CHF to JPY",
+    );
+    expect(() => rates.set("EUR", "0")).toThrow(DomainError);
+    expect(() => rates.setPair("EUR", "eur", "1")).toThrow(DomainError);
+    expect(() => rates.convert("1", "USD", "XYZ")).toThrow(DomainError);
+    expect(() => ExchangeRates.fromJSON("{")).toThrow(ParseError);
+    expect(() => ExchangeRates.fromJSON('{"rates":{}}')).toThrow(ParseError);
+    expect(() => ExchangeRates.fromJSON("null")).toThrow(ParseError);
+    expect(() => ExchangeRates.fromJSON("[]")).toThrow(ParseError);
+    expect(() =>
+      ExchangeRates.fromJSON('{"base":"USD","rates":["0.9","0.8"]}'),
+    ).toThrow("Exchange rate JSON must have a base currency and a rates object");
+    expect(() =>
+      ExchangeRates.fromJSON('{"base":"USD","rates":{},"pairs":[]}'),
+    ).toThrow(ParseError);
+    expect(() =>
+      ExchangeRates.fromJSON('{"base":"USD","rates":{"EUR":true}}'),
+    ).toThrow(ParseError);
+    expect(() =>
+      ExchangeRates.fromJSON('{"base":"USD","rates":{},"pairs":{"EUR":"1"}}'),
+    ).toThrow("Invalid currency pair: EUR");
+  });
+});
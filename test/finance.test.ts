@@ -0,0 +1,215 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, { DomainError, ParseError } from "../src/FixedPrecision";
+
+const FP2 = FixedPrecision.create({ places: 2 });
+const FP8 = FixedPrecision.create({ places: 8 });
+
+describe("Finance", () => {
+  test("payments", () => {
+    expect(FixedPrecision.pmt("0.005", 360, 100000).toString()).toBe(
+      "-599.55052515",
+    );
+    expect(FixedPrecision.pmt(FP2("0"), 10, 1000).toString()).toBe("-100");
+    expect(
+      FixedPrecision.pmt(FP2("0.05"), 10, 1000, 0, "begin").toString(),
+    ).toBe("-123.34");
+    expect(FixedPrecision.ipmt("0.1", 3, 3, 8000).toString()).toBe(
+      "-292.44712991",
+    );
+    expect(FixedPrecision.ipmt("0.1", 1, 3, 8000, 0, "begin").toString()).toBe(
+      "0",
+    );
+    expect(FixedPrecision.ipmt("0.1", 2, 3, 8000, 0, "begin").toString()).toBe(
+      "-507.55287009",
+    );
+    expect(FixedPrecision.ppmt("0.08", 10, 10, 200000).toString()).toBe(
+      "-27598.05346242",
+    );
+  });
+
+  test("interest and principal add up to the payment", () => {
+    const payment = FixedPrecision.pmt(FP8("0.01"), 12, 5000);
+    for (let per = 1; per <= 12; per++) {
+      const interest = FixedPrecision.ipmt(FP8("0.01"), per, 12, 5000);
+      const principal = FixedPrecision.ppmt(FP8("0.01"), per, 12, 5000);
+      expect(interest.add(principal).sub(payment).abs().lte("0.00000001")).toBe(
+        true,
+      );
+    }
+  });
+
+  test("future and present value", () => {
+    expect(FixedPrecision.fv("0.005", 10, -200, -500, "begin").toString()).toBe(
+      "2581.40337406",
+    );
+    expect(FixedPrecision.fv("0.05", "2.5", 0, -100).toString()).toBe(
+      "112.97263219",
+    );
+    expect(FixedPrecision.fv(0, 12, -100).toString()).toBe("1200");
+    expect(FixedPrecision.pv("0.01", 12, -100).toString()).toBe(
+      "1125.50774735",
+    );
+    expect(FixedPrecision.pv(FP2("0.1"), 5, 0, 1000).toString()).toBe(
+      "-620.92",
+    );
+  });
+
+  test("rate and number of periods", () => {
+    expect(FixedPrecision.rate(48, -200, 8000).toString()).toBe("0.00770147");
+    expect(FixedPrecision.rate(10, -100, 1000).toString()).toBe("0");
+    expect(
+      FixedPrecision.rate(10, -123.34, 1000, 0, "begin").round(4).toString(),
+    ).toBe("0.05");
+    expect(
+      FixedPrecision.nper("0.01", -100, -1000, 10000, "begin").toString(),
+    ).toBe("59.67386567");
+    expect(FixedPrecision.nper(0, -100, 1000).toString()).toBe("10");
+  });
+
+  test("net present value and internal rate of return", () => {
+    expect(
+      FixedPrecision.npv("0.1", [-10000, 3000, 4200, 6800]).toString(),
+    ).toBe("1188.44341234");
+    const flows = [-70000, 12000, 15000, 18000, 21000, 26000];
+    expect(FixedPrecision.irr(flows).toString()).toBe("0.08663095");
+    expect(FixedPrecision.irr(flows, "-0.5").toString()).toBe("0.08663095");
+    expect(FixedPrecision.irr([FP2("-100"), "110"]).toString()).toBe("0.1");
+  });
+
+  test("xirr with dated cash flows", () => {
+    const flows = [
+      { amount: -10000, date: "2008-01-01" },
+      { amount: 2750, date: "2008-03-01" },
+      { amount: 4250, date: "2008-10-30" },
+      { amount: 3250, date: "2009-02-15" },
+      { amount: 2750, date: new Date(Date.UTC(2009, 3, 1)) },
+    ];
+    expect(FixedPrecision.xirr(flows).toString()).toBe("0.37336253");
+    expect(
+      FixedPrecision.xirr([
+        { amount: FP2("-1000"), date: "2023-01-01" },
+        { amount: "1100", date: "2024-01-01" },
+      ]).toString(),
+    ).toBe("0.1");
+  });
+
+  test("amortization schedule closes exactly", () => {
+    const rows = FixedPrecision.amortize({
+      principal: FP2("200000"),
+      annualRate: "0.04",
+      term: 30,
+    });
+    expect(rows).toHaveLength(360);
+    expect(rows[0].payment.toString()).toBe("954.83");
+    expect(rows[0].interest.toString()).toBe("666.67");
+    expect(rows[0].principal.toString()).toBe("288.16");
+    expect(rows[0].balance.toString()).toBe("199711.84");
+    expect(rows[359].period).toBe(360);
+    expect(rows[359].payment.toString()).toBe("955.41");
+    expect(rows[359].balance.toString()).toBe("0");
+    expect(
+      FixedPrecision.sum(rows.map((row) => row.principal)).toString(),
+    ).toBe("200000");
+  });
+
+  test("amortization with extra payments and interest-only periods", () => {
+    const summary = (rows: ReturnType<typeof FixedPrecision.amortize>) =>
+      rows.map((row) =>
+        [row.payment, row.interest, row.principal, row.balance].join(" "),
+      );
+    expect(
+      summary(
+        FixedPrecision.amortize({
+          principal: FP2("1000"),
+          annualRate: "0.12",
+          term: 0.5,
+          interestOnlyPeriods: 2,
+          extraPayments: { 4: 100 },
+        }),
+      ),
+    ).toEqual([
+      "10 10 0 1000",
+      "10 10 0 1000",
+      "256.28 10 246.28 753.72",
+      "356.28 7.54 348.74 404.98",
+      "256.28 4.05 252.23 152.75",
+      "154.28 1.53 152.75 0",
+    ]);
+    expect(
+      summary(
+        FixedPrecision.amortize({
+          principal: FP2("1000"),
+          annualRate: "0.12",
+          term: 1,
+          extraPayments: 200,
+        }),
+      ),
+    ).toEqual([
+      "288.85 10 278.85 721.15",
+      "288.85 7.21 281.64 439.51",
+      "288.85 4.4 284.45 155.06",
+      "156.61 1.55 155.06 0",
+    ]);
+    expect(
+      summary(
+        FixedPrecision.amortize({
+          principal: FP2("1000"),
+          annualRate: 0,
+          term: 1,
+          frequency: 3,
+        }),
+      ),
+    ).toEqual([
+      "333.33 0 333.33 666.67",
+      "333.33 0 333.33 333.34",
+      "333.34 0 333.34 0",
+    ]);
+    expect(() =>
+      FixedPrecision.amortize({
+        principal: 1000,
+        annualRate: "0.12",
+        term: 1.05,
+      }),
+    ).toThrow("Term must cover a positive whole number of payments");
+    expect(() =>
+      FixedPrecision.amortize({
+        principal: 1000,
+        annualRate: "0.12",
+        term: 1,
+        interestOnlyPeriods: 12,
+      }),
+    ).toThrow(DomainError);
+  });
+
+  test("work precision keeps the caller's flags and traps", () => {
+    const FPT = FixedPrecision.create({ places: 2, traps: ["Inexact"] });
+    expect(FixedPrecision.pmt(FPT("0.01"), 12, 1000).toString()).toBe("-88.85");
+    expect(FPT("0").flags()).toEqual([]);
+  });
+
+  test("invalid inputs throw", () => {
+    expect(() => FixedPrecision.irr([100, 200])).toThrow(DomainError);
+    expect(() => FixedPrecision.irr([100, 200])).toThrow(
+      "Cash flows must include a positive and a negative value",
+    );
+    expect(() => FixedPrecision.pmt("-1", 10, 1000)).toThrow(
+      "Rate must be greater than -1",
+    );
+    expect(() => FixedPrecision.pmt("0.01", 0, 1000)).toThrow(
+      "Number of periods must be non-zero",
+    );
+    expect(() => FixedPrecision.ipmt("0.01", 13, 12, 1000)).toThrow(
+      "Period must be an integer between 1 and nper",
+    );
+    expect(() => FixedPrecision.nper("0.01", -10, 1000)).toThrow(
+      "No number of periods settles these cash flows",
+    );
+    expect(() =>
+      FixedPrecision.xirr([
+        { amount: -1, date: "2024-02-30" },
+        { amount: 2, date: "2025-01-01" },
+      ]),
+    ).toThrow(ParseError);
+  });
+});
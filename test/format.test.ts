@@ -0,0 +1,255 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, { DomainError } from "../src/FixedPrecision";
+
+const FP0 = FixedPrecision.create({ places: 0 });
+const FP2 = FixedPrecision.create({ places: 2 });
+const FP8 = FixedPrecision.create({ places: 8 });
+
+describe("Format", () => {
+  test("default grouping", () => {
+    expect(FP8("1234567.891").toFormat()).toBe("1,234,567.891");
+    expect(FP8("-1234567.891").toFormat()).toBe("-1,234,567.891");
+    expect(FP8("123").toFormat()).toBe("123");
+    expect(FP8("0.5").toFormat()).toBe("0.5");
+    expect(FP0("1000").toFormat()).toBe("1,000");
+    expect(FP0(10n ** 30n).toFormat()).toBe(
+      "1,000,000,000,000,000,000,000,000,000,000",
+    );
+    expect(FP8("1234.5").toFormat({ useGrouping: false })).toBe("1234.5");
+  });
+
+  test("locales", () => {
+    const value = FP8("-1234567.891");
+    expect(value.toFormat({ locale: "en-US" })).toBe("-1,234,567.891");
+    expect(value.toFormat({ locale: "de-DE" })).toBe("-1.234.567,891");
+    expect(value.toFormat({ locale: "en-IN" })).toBe("-12,34,567.891");
+    expect(value.toFormat({ locale: "de-CH" })).toBe("-1’234’567.891");
+    expect(value.toFormat({ locale: "ar-EG" })).toBe("-1,234,567.891");
+    expect(() => value.toFormat({ locale: "!!" })).toThrow(DomainError);
+  });
+
+  test("custom separators and group sizes", () => {
+    const value = FP8("123456789.5");
+    expect(value.toFormat({ groupSeparator: " ", decimalSeparator: "," })).toBe(
+      "123 456 789,5",
+    );
+    expect(value.toFormat({ groupSizes: [3, 2] })).toBe("12,34,56,789.5");
+    expect(value.toFormat({ groupSizes: [4] })).toBe("1,2345,6789.5");
+    expect(value.toFormat({ locale: "de-DE", groupSeparator: "'" })).toBe(
+      "123'456'789,5",
+    );
+    expect(() => value.toFormat({ groupSizes: [0] })).toThrow(
+      "Group sizes must be one or two positive integers",
+    );
+  });
+
+  test("fraction digits", () => {
+    const value = FP8("1234.56789");
+    expect(value.toFormat({ maximumFractionDigits: 2 })).toBe("1,234.57");
+    expect(value.toFormat({ maximumFractionDigits: 0 })).toBe("1,235");
+    expect(value.toFormat({ maximumFractionDigits: 2, roundingMode: 1 })).toBe(
+      "1,234.56",
+    );
+    expect(FP8("999.995").toFormat({ maximumFractionDigits: 2 })).toBe("1,000");
+    expect(FP8("1.5").toFormat({ minimumFractionDigits: 2 })).toBe("1.50");
+    expect(
+      FP8("1.5").toFormat({
+        minimumFractionDigits: 12,
+        maximumFractionDigits: 12,
+      }),
+    ).toBe("1.500000000000");
+    expect(FP0("7").toFormat({ minimumFractionDigits: 2 })).toBe("7.00");
+    expect(() =>
+      value.toFormat({ minimumFractionDigits: 3, maximumFractionDigits: 2 }),
+    ).toThrow("minimumFractionDigits must not exceed maximumFractionDigits");
+    expect(() => value.toFormat({ maximumFractionDigits: -1 })).toThrow(
+      DomainError,
+    );
+  });
+
+  test("sign display", () => {
+    expect(FP8("12").toFormat({ signDisplay: "always" })).toBe("+12");
+    expect(FP8("0").toFormat({ signDisplay: "always" })).toBe("+0");
+    expect(FP8("0").toFormat({ signDisplay: "exceptZero" })).toBe("0");
+    expect(FP8("-3").toFormat({ signDisplay: "exceptZero" })).toBe("-3");
+    expect(FP8("-3").toFormat({ signDisplay: "never" })).toBe("3");
+    expect(FP8("-3").toFormat({ signDisplay: "negative" })).toBe("-3");
+    expect(FP8("-0.001").toFormat({ maximumFractionDigits: 2 })).toBe("-0");
+    expect(
+      FP8("-0.001").toFormat({
+        maximumFractionDigits: 2,
+        signDisplay: "exceptZero",
+      }),
+    ).toBe("0");
+    expect(
+      FP8("-0.001").toFormat({
+        maximumFractionDigits: 2,
+        signDisplay: "negative",
+      }),
+    ).toBe("0");
+  });
+
+  test("cash rounding", () => {
+    expect(FP2("1234.47").toFormat({ cashRounding: "CHF" })).toBe("1,234.45");
+    expect(
+      FP2("1234.47").toFormat({ cashRounding: { increment: "0.1" } }),
+    ).toBe("1,234.5");
+    const value = FP2("12.33");
+    expect(value.cashRound("CHF").toString()).toBe("12.35");
+    expect(value.cashRound("SEK").toString()).toBe("12");
+    expect(
+      value.cashRound({ increment: "0.10", roundingMode: 2 }).toString(),
+    ).toBe("12.4");
+    expect(() => value.cashRound("USD")).toThrow(
+      "No cash rounding rule for currency: USD",
+    );
+    expect(() =>
+      FixedPrecision.create({ places: 1 })("1").cashRound("CHF"),
+    ).toThrow(DomainError);
+  });
+
+  test("formatToParts", () => {
+    expect(FP8("-1234.5").formatToParts({ locale: "de-DE" })).toEqual([
+      { type: "minusSign", value: "-" },
+      { type: "integer", value: "1" },
+      { type: "group", value: "." },
+      { type: "integer", value: "234" },
+      { type: "decimal", value: "," },
+      { type: "fraction", value: "5" },
+    ]);
+    expect(FP8("5").formatToParts({ signDisplay: "always" })).toEqual([
+      { type: "plusSign", value: "+" },
+      { type: "integer", value: "5" },
+    ]);
+  });
+});
+
+describe("Parse", () => {
+  test("locales", () => {
+    expect(
+      FixedPrecision.parse("1.234.567,89", { locale: "de-DE" }).toString(),
+    ).toBe("1234567.89");
+    expect(
+      FixedPrecision.parse("1,234,567.89", { locale: "en-US" }).toString(),
+    ).toBe("1234567.89");
+    expect(
+      FixedPrecision.parse("12,34,567.5", { locale: "en-IN" }).toString(),
+    ).toBe("1234567.5");
+    expect(
+      FixedPrecision.parse("1 234 567,5", { locale: "fr-FR" }).toString(),
+    ).toBe("1234567.5");
+    expect(
+      FixedPrecision.parse(" -1234,5 ", { locale: "de-DE" }).toString(),
+    ).toBe("-1234.5");
+  });
+
+  test("round-trips toFormat", () => {
+    const value = FP8("-98765432.12345678");
+    for (const locale of [
+      "en-US",
+      "de-DE",
+      "en-IN",
+      "fr-FR",
+      "de-CH",
+      "ar-EG",
+    ]) {
+      const formatted = value.toFormat({ locale });
+      expect(FixedPrecision.parse(formatted, { locale }).eq(value)).toBe(true);
+    }
+  });
+
+  test("custom separators and context", () => {
+    expect(
+      FixedPrecision.parse("1'234.5", { groupSeparator: "'" }).toString(),
+    ).toBe("1234.5");
+    expect(
+      FixedPrecision.parse("1_234:5", {
+        groupSeparator: "_",
+        decimalSeparator: ":",
+      }).toString(),
+    ).toBe("1234.5");
+    const rounded = FixedPrecision.parse("1,234.567", {
+      places: 2,
+      roundingMode: 1,
+    });
+    expect(rounded.toString()).toBe("1234.56");
+    expect(rounded.places()).toBe(2);
+    expect(() => FixedPrecision.parse("1.5", { groupSeparator: "." })).toThrow(
+      "Group and decimal separators must differ",
+    );
+  });
+
+  test("currency symbols", () => {
+    const options = { allowCurrencySymbol: true };
+    expect(FixedPrecision.parse("$1,234.56", options).toString()).toBe(
+      "1234.56",
+    );
+    expect(FixedPrecision.parse("-$1,234.56", options).toString()).toBe(
+      "-1234.56",
+    );
+    expect(FixedPrecision.parse("$-5", options).toString()).toBe("-5");
+    expect(FixedPrecision.parse("USD 12.00", options).toString()).toBe("12");
+    expect(
+      FixedPrecision.parse("1.234,56 €", {
+        locale: "de-DE",
+        allowCurrencySymbol: true,
+      }).toString(),
+    ).toBe("1234.56");
+    expect(() => FixedPrecision.parse("$5")).toThrow(
+      "Expected a digit at index 0",
+    );
+  });
+
+  test("only real currency markers", () => {
+    const options = { allowCurrencySymbol: true };
+    expect(() => FixedPrecision.parse("x5", options)).toThrow(
+      "Expected a digit at index 0",
+    );
+    expect(() => FixedPrecision.parse("e5", options)).toThrow(
+      "Expected a digit at index 0",
+    );
+    expect(() => FixedPrecision.parse("5e", options)).toThrow(
+      'Unexpected character "e" at index 1',
+    );
+    expect(() => FixedPrecision.parse("ABC 5", options)).toThrow(
+      "Expected a digit at index 0",
+    );
+    expect(() => FixedPrecision.parse("USDX 5", options)).toThrow(
+      "Expected a digit at index 0",
+    );
+    expect(() => FixedPrecision.parse("R$ 5", options)).toThrow(
+      "Expected a digit at index 0",
+    );
+    expect(FixedPrecision.parse("5 CHF", options).toString()).toBe("5");
+    expect(
+      FixedPrecision.parse("R$ 1.234,56", {
+        ...options,
+        locale: "pt-BR",
+        currency: "brl",
+      }).toString(),
+    ).toBe("1234.56");
+    expect(() =>
+      FixedPrecision.parse("5", { ...options, currency: "XYZ" }),
+    ).toThrow("Unknown currency code: XYZ");
+  });
+
+  test("rejects misplaced group separators", () => {
+    const cases: [string, string][] = [
+      ["12,3456", "Misplaced group separator at index 2"],
+      ["1234,567", "Misplaced group separator at index 4"],
+      ["1,23,456", "Misplaced group separator at index 1"],
+      ["1,234,", 'Unexpected character "," at index 5'],
+      ["1,234.5.6", 'Unexpected character "." at index 7'],
+    ];
+    for (const [input, message] of cases) {
+      expect(() => FixedPrecision.parse(input)).toThrow(message);
+    }
+    expect(() => FixedPrecision.parse("12,3456")).toThrow(
+      expect.objectContaining({ code: "PARSE_ERROR", index: 2 }),
+    );
+    expect(() =>
+      FixedPrecision.parse("1,234,567", { locale: "en-IN" }),
+    ).toThrow("Misplaced group separator at index 1");
+  });
+});
@@ -1,9 +1,14 @@
 import { describe, expect, test } from "vitest";
 
-import FixedPrecision from "../src/FixedPrecision";
+import FixedPrecision, {
+  DomainError,
+  Matrix,
+  PrecisionMismatchError,
+} from "../src/FixedPrecision";
 
 const FP8 = FixedPrecision.create({ places: 8, roundingMode: 4 });
 const FP16 = FixedPrecision.create({ places: 16, roundingMode: 4 });
+const FP4 = FixedPrecision.create({ places: 4, roundingMode: 4 });
 
 describe("Matrix", () => {
   test("dot product", () => {
@@ -25,4 +30,77 @@ describe("Matrix", () => {
   test("cross length mismatch throws", () => {
     expect(() => FixedPrecision.cross([1, 2], [4, 5, 6])).toThrow();
   });
+
+  test("matrix construction", () => {
+    const m = Matrix.from([[FP4("1"), "2", "3"], [4, "5.5", 6n]]);
+    expect(m.rows()).toBe(2);
+    expect(m.columns()).toBe(3);
+    expect(m.get(1, 1).toString()).toBe("5.5");
+    expect(m.get(1, 2).toString()).toBe("0.0006");
+    expect(m.get(0, 0).places()).toBe(4);
+    expect(m.toJSON()).toEqual([["1", "2", "3"], ["4", "5.5", "0.0006"]]);
+    expect(m.toString()).toBe("[[1, 2, 3], [4, 5.5, 0.0006]]");
+    expect(FixedPrecision.matrix([[FP16("1")]]).get(0, 0).places()).toBe(16);
+    expect(Matrix.isMatrix(m)).toBe(true);
+    expect(() => Matrix.from([])).toThrow("Matrix must have at least one row and column");
+    expect(() => Matrix.from([[1, 2], [3]])).toThrow("Matrix rows must all have the same length");
+    expect(() => m.get(2, 0)).toThrow("Matrix index out of range");
+  });
+
+  test("matrix add, sub and scalar mul", () => {
+    const a = Matrix.from([[FP4("2"), "1"], ["7", "4"]]);
+    const b = Matrix.from([[FP4("1.5"), "0"], ["-2", "0.25"]]);
+    expect(a.add(b).toJSON()).toEqual([["3.5", "1"], ["5", "4.25"]]);
+    expect(a.sub(b).toJSON()).toEqual([["0.5", "1"], ["9", "3.75"]]);
+    expect(a.mul("0.5").toJSON()).toEqual([["1", "0.5"], ["3.5", "2"]]);
+    expect(a.mul(FP4("0.3333")).toJSON()).toEqual([["0.6666", "0.3333"], ["2.3331", "1.3332"]]);
+    expect(() => a.add(Matrix.from([[FP4("1"), "2", "3"]]))).toThrow(
+      "Matrices must have the same dimensions",
+    );
+    expect(() => a.add(Matrix.from([[FP8("1"), "2"], ["3", "4"]]))).toThrow(
+      PrecisionMismatchError,
+    );
+  });
+
+  test("matrix multiply and transpose", () => {
+    const a = Matrix.from([[FP4("1"), "2", "3"], ["4", "5", "6"]]);
+    expect(a.transpose().toJSON()).toEqual([["1", "4"], ["2", "5"], ["3", "6"]]);
+    expect(a.mul(a.transpose()).toJSON()).toEqual([["14", "32"], ["32", "77"]]);
+    expect(Matrix.from([[FP4("0.0001")]]).mul(Matrix.from([[FP4("0.5")]])).toJSON()).toEqual([
+      ["0.0001"],
+    ]);
+    expect(() => a.mul(a)).toThrow("Matrix dimensions do not match for multiplication");
+  });
+
+  test("trace and determinant", () => {
+    const a = Matrix.from([[FP4("2"), "1"], ["7", "4"]]);
+    expect(a.trace().toString()).toBe("6");
+    expect(a.determinant().toString()).toBe("1");
+    const b = Matrix.from([[FP4("0"), "2", "1"], ["1", "0", "3"], ["4", "-1", "2"]]);
+    expect(b.determinant().toString()).toBe("19");
+    const c = Matrix.from([[FP4("1.5"), "2.25", "3"], ["0.5", "1", "-1"], ["2", "0", "4.75"]]);
+    expect(c.determinant().toString()).toBe("-8.7188");
+    expect(Matrix.from([[FP4("1"), "2"], ["2", "4"]]).determinant().toString()).toBe("0");
+    expect(() => Matrix.from([[FP4("1"), "2"]]).trace()).toThrow(DomainError);
+    expect(() => Matrix.from([[FP4("1"), "2"]]).determinant()).toThrow("Matrix must be square");
+  });
+
+  test("inverse", () => {
+    const a = Matrix.from([[FP4("2"), "1"], ["7", "4"]]);
+    expect(a.inverse().toJSON()).toEqual([["4", "-1"], ["-7", "2"]]);
+    expect(a.mul(a.inverse()).eq(Matrix.from([[FP4("1"), "0"], ["0", "1"]]))).toBe(true);
+    const b = Matrix.from([[FP4("0"), "2", "1"], ["1", "0", "3"], ["4", "-1", "2"]]);
+    expect(b.inverse().toJSON()).toEqual([
+      ["0.1579", "-0.2632", "0.3158"],
+      ["0.5263", "-0.2105", "0.0526"],
+      ["-0.0526", "0.4211", "-0.1053"],
+    ]);
+    const c = Matrix.from([[FP4("1.5"), "2.25", "3"], ["0.5", "1", "-1"], ["2", "0", "4.75"]]);
+    expect(c.inverse().toJSON()).toEqual([
+      ["-0.5448", "1.2258", "0.6022"],
+      ["0.5018", "-0.129", "-0.3441"],
+      ["0.2294", "-0.5161", "-0.043"],
+    ]);
+    expect(() => Matrix.from([[FP4("1"), "2"], ["2", "4"]]).inverse()).toThrow("Matrix is singular");
+  });
 });
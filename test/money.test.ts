@@ -0,0 +1,152 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  CurrencyMismatchError,
+  DomainError,
+  Money,
+  SignalError,
+} from "../src/FixedPrecision";
+
+describe("Money", () => {
+  test("minor units", () => {
+    expect(Money.of("19.99", "USD").toString()).toBe("19.99 USD");
+    expect(Money.of("1234.5", "JPY").toString()).toBe("1235 JPY");
+    expect(Money.of("1.2345", "BHD").toString()).toBe("1.235 BHD");
+    expect(Money.of("1", "CLF").toString()).toBe("1.0000 CLF");
+    expect(Money.of("7", "eur").currency).toBe("EUR");
+    expect(Money.minorUnits("KWD")).toBe(3);
+    expect(Money.of("1", "USD").minorUnits()).toBe(2);
+    expect(() => Money.of("1", "XYZ")).toThrow(DomainError);
+    expect(() => Money.of("1", "XYZ")).toThrow("Unknown currency code: XYZ");
+  });
+
+  test("minor unit amounts", () => {
+    expect(Money.of(1999n, "USD").toString()).toBe("19.99 USD");
+    expect(Money.of("19.99", "USD").toMinor()).toBe(1999n);
+    expect(Money.of("19.99", "USD").amount.toString()).toBe("19.99");
+  });
+
+  test("same-currency arithmetic", () => {
+    const a = Money.of("10.00", "USD");
+    const b = Money.of("5.25", "USD");
+    expect(a.add(b).toString()).toBe("15.25 USD");
+    expect(a.sub(b).toString()).toBe("4.75 USD");
+    expect(b.sub(a).neg().toString()).toBe("4.75 USD");
+    expect(b.sub(a).abs().toString()).toBe("4.75 USD");
+    expect(a.gt(b)).toBe(true);
+    expect(a.cmp(b)).toBe(1);
+    expect(a.eq(Money.of(10, "USD"))).toBe(true);
+    expect(a.sub(a).isZero()).toBe(true);
+  });
+
+  test("refuses different currencies", () => {
+    const usd = Money.of("10", "USD");
+    const eur = Money.of("10", "EUR");
+    expect(() => usd.add(eur)).toThrow(CurrencyMismatchError);
+    expect(() => usd.lt(eur)).toThrow("Cannot operate on different currencies");
+    expect(() => usd.sub(eur)).toThrow(
+      expect.objectContaining({
+        code: "CURRENCY_MISMATCH",
+        operation: "sub",
+        operands: ["10.00 USD", "10.00 EUR"],
+      }),
+    );
+  });
+
+  test("mul and div use exact factors", () => {
+    const a = Money.of("10.00", "USD");
+    expect(a.mul("1.075").toString()).toBe("10.75 USD");
+    expect(a.mul(0.125).toString()).toBe("1.25 USD");
+    expect(a.mul("1e-3").toString()).toBe("0.01 USD");
+    expect(a.div(3).toString()).toBe("3.33 USD");
+    expect(a.div("-0.5").toString()).toBe("-20.00 USD");
+    expect(
+      a.mul(FixedPrecision.create({ places: 4 })("0.3333")).toString(),
+    ).toBe("3.33 USD");
+    expect(Money.of("1234.57", "USD").mul("1.075").toString()).toBe(
+      "1327.16 USD",
+    );
+    expect(() => a.div(0)).toThrow("Division by zero");
+  });
+
+  test("allocate and split", () => {
+    expect(Money.of("100", "USD").split(3).map(String)).toEqual([
+      "33.34 USD",
+      "33.33 USD",
+      "33.33 USD",
+    ]);
+    expect(Money.of("100", "JPY").allocate([1, 2]).map(String)).toEqual([
+      "33 JPY",
+      "67 JPY",
+    ]);
+  });
+
+  test("factories", () => {
+    const Even = Money.create({ roundingMode: 6 });
+    expect(Even("0.125", "USD").toString()).toBe("0.12 USD");
+    expect(Even("0.135", "USD").toString()).toBe("0.14 USD");
+    expect(Even("0.125", "USD").mul("0.5").toString()).toBe("0.06 USD");
+
+    const Strict = Money.create({ traps: ["Inexact"] });
+    expect(() => Strict("0.125", "USD")).toThrow(SignalError);
+    expect(() => Strict("1", "USD").div(3)).toThrow("Inexact result");
+    expect(Money.isMoney(Strict("1", "USD"))).toBe(true);
+    expect(Money.isMoney(FixedPrecision.create({ places: 2 })("1"))).toBe(
+      false,
+    );
+  });
+
+  test("format", () => {
+    const price = Money.of("-1234.5", "EUR");
+    expect(price.format()).toBe("-€1,234.50");
+    expect(price.format({ locale: "de-DE" })).toBe("-1.234,50 €");
+    expect(price.format({ currencyDisplay: "code" })).toBe("-EUR 1,234.50");
+    expect(Money.of("5", "USD").format({ signDisplay: "always" })).toBe(
+      "+$5.00",
+    );
+    expect(Money.of("1500", "JPY").format()).toBe("¥1,500");
+    expect(
+      Money.of("1234.56", "USD").format({ maximumFractionDigits: 0 }),
+    ).toBe("$1,235");
+  });
+
+  test("cash rounding", () => {
+    expect(Money.of("12.33", "CHF").cashRound().toString()).toBe("12.35 CHF");
+    expect(Money.of("7.37", "CAD").cashRound().toString()).toBe("7.35 CAD");
+    expect(Money.of("12.50", "SEK").cashRound().toString()).toBe("13.00 SEK");
+    expect(Money.of("12.33", "USD").cashRound().toString()).toBe("12.33 USD");
+    expect(Money.of("12.33", "CHF").format()).toBe("CHF\u00a012.35");
+    expect(Money.of("12.33", "CHF").format({ cashRounding: false })).toBe(
+      "CHF\u00a012.33",
+    );
+    expect(Money.of("12.33", "USD").format()).toBe("$12.33");
+    expect(Money.of("12.33", "CHF").settle().toString()).toBe("12.35 CHF");
+    expect(Money.of("12.50", "SEK").settle().toString()).toBe("13.00 SEK");
+    expect(
+      Money.of("12.33", "CHF").settle({ cashRounding: false }).toString(),
+    ).toBe("12.33 CHF");
+    expect(Money.of("12.33", "USD").settle().toString()).toBe("12.33 USD");
+    expect(Money.cashRoundingRule("chf")).toEqual({
+      increment: "0.05",
+      roundingMode: 4,
+    });
+
+    Money.registerCashRounding("USD", { increment: "0.05", roundingMode: 1 });
+    expect(Money.of("12.34", "USD").cashRound().toString()).toBe("12.30 USD");
+    Money.registerCashRounding("USD", null);
+    expect(Money.cashRoundingRule("USD")).toBeUndefined();
+    expect(() => Money.registerCashRounding("USD", { increment: "0" })).toThrow(
+      DomainError,
+    );
+  });
+
+  test("toJSON", () => {
+    expect(JSON.stringify(Money.of("0", "USD"))).toBe(
+      '{"amount":"0.00","currency":"USD"}',
+    );
+    expect(Money.of("1234567.5", "USD").toJSON()).toEqual({
+      amount: "1234567.50",
+      currency: "USD",
+    });
+  });
+});
@@ -14,7 +14,7 @@ const FP20 = FixedPrecision.create({ places: 20, roundingMode: 4 });
 describe("Numeric", () => {
   test("constructor string", () => {
     expect(FP8(12345.67891234).toString()).toBe("12345.67891234");
-    expect(FP8(0.123456789).toString()).toBe("0.12345678");
+    expect(FP8(0.123456789).toString()).toBe("0.12345679");
   });
 
   test("constructor number", () => {
@@ -125,14 +125,68 @@ describe("Numeric", () => {
   test("string representations", () => {
     expect(FP("123456789").toString()).toBe("123456789");
     expect(FP("0.1").toString()).toBe("0");
-    expect(FP("0.9").toString()).toBe("0");
+    expect(FP("0.9").toString()).toBe("1");
     expect(FP2("-1234.56").toString()).toBe("-1234.56");
     expect(FP4("9.5").toString(false)).toBe("9.5000");
     expect(FP4("0.0099").toString()).toBe("0.0099");
     expect(FP4("0").toString()).toBe("0");
-    expect(
-      FP2("3.141592653589793238462643383279502884197169").toString(),
-    ).toBe("3.14");
+    expect(FP2("3.141592653589793238462643383279502884197169").toString()).toBe(
+      "3.14",
+    );
+  });
+
+  test("number conversion modes", () => {
+    const Exact2 = FixedPrecision.create({
+      places: 2,
+      numberConversion: "exact",
+    });
+    const Exact8 = FixedPrecision.create({
+      places: 8,
+      numberConversion: "exact",
+    });
+    const Exact30 = FixedPrecision.create({
+      places: 30,
+      numberConversion: "exact",
+    });
+    const ExactInt = FixedPrecision.create({
+      places: 0,
+      numberConversion: "exact",
+    });
+    expect(FP2(1.005).toString()).toBe("1.01");
+    expect(Exact2(1.005).toString()).toBe("1");
+    expect(Exact30(1.005).toString()).toBe("1.004999999999999893418589635985");
+    expect(ExactInt(2 ** 60).toString()).toBe("1152921504606846976");
+    expect(FP(2 ** 60).toString()).toBe("1152921504606847000");
+    expect(FP(Number.MAX_SAFE_INTEGER).toString()).toBe("9007199254740991");
+    expect(Exact8(-Number.MAX_SAFE_INTEGER).toString(false)).toBe(
+      "-9007199254740991.00000000",
+    );
+    expect(Exact30(Number.MIN_VALUE).toString()).toBe("0");
+    expect(() => Exact2(Number.NaN)).toThrow("Invalid number");
+
+    const Exact = FixedPrecision.create({
+      places: 20,
+      numberConversion: "exact",
+    });
+    expect(Exact(0.1).toString()).toBe("0.10000000000000000555");
+    expect(Exact(0.1).add(0.2).toString()).toBe("0.30000000000000001665");
+
+    expect(FixedPrecision.fromNumber(0.5, "exact").toString()).toBe("0.5");
+    expect(FixedPrecision.fromNumber(1.005, "exact").toString(false)).toBe(
+      "1.00500000",
+    );
+    expect(["1", 2, "3.5"].map(FP2).map(String)).toEqual(["1", "2", "3.5"]);
+    expect(FP2.fromNumber(1.005).toString()).toBe("1.01");
+    expect(FP2.fromNumber(1.005, "exact").toString()).toBe("1");
+    expect(FP2.fromNumber(1.005, "exact").places()).toBe(2);
+    expect(Exact2.fromNumber(1.005, "shortest").toString()).toBe("1.01");
+    expect(Exact2.fromNumber(1.005).toString()).toBe("1");
+    expect(() =>
+      FixedPrecision.create({
+        places: 2,
+        numberConversion: "binary" as "exact",
+      }),
+    ).toThrow('Invalid numberConversion. Must be "shortest" or "exact"');
   });
 
   test("parse", () => {
@@ -143,7 +197,7 @@ describe("Numeric", () => {
     );
     expect(FP6("1234.56789").trunc().toNumber()).toBe(1234);
     expect(FP6("-99").trunc().toNumber()).toBe(-99);
-    expect(FP10(3.14159265358979).toString()).toBe("3.1415926535");
+    expect(FP10(3.14159265358979).toString()).toBe("3.1415926536");
     expect(FP10(-0.1).toString(false)).toBe("-0.1000000000");
     expect(FP10(1 / 3).toString()).toBe("0.3333333333");
     expect(FP6(1e15).toString(false)).toBe("1000000000000000.000000");
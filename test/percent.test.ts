@@ -0,0 +1,127 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  BasisPoints,
+  Money,
+  ParseError,
+  Percent,
+} from "../src/FixedPrecision";
+
+describe("Percent and BasisPoints", () => {
+  const FP2 = FixedPrecision.create({ places: 2 });
+
+  test("parse with suffixes", () => {
+    expect(Percent.parse("5%").toString()).toBe("5%");
+    expect(Percent.parse(" -12.5 % ").toString()).toBe("-12.5%");
+    expect(BasisPoints.parse("25bp").toString()).toBe("25bp");
+    expect(BasisPoints.parse("7.5 bps").toString()).toBe("7.5bp");
+    expect(() => Percent.parse("5")).toThrow(ParseError);
+    expect(() => Percent.parse("5")).toThrow("Expected a value ending in %");
+    expect(() => BasisPoints.parse("5%")).toThrow(
+      "Expected a value ending in bp",
+    );
+    expect(() => Percent.parse("abc%")).toThrow(ParseError);
+  });
+
+  test("parse with a config", () => {
+    expect(Percent.parse("12.3456789%", { places: 2 }).toString()).toBe(
+      "12.35%",
+    );
+    expect(
+      Percent.parse("12.3456789%", {
+        places: 2,
+        onExcessDigits: "truncate",
+      }).toString(),
+    ).toBe("12.34%");
+    expect(() =>
+      Percent.parse("12.345%", { places: 2, onExcessDigits: "throw" }),
+    ).toThrow("Value has more than 2 decimal places");
+    expect(() =>
+      BasisPoints.parse("2.55bp", { places: 1, onExcessDigits: "throw" }),
+    ).toThrow(ParseError);
+    expect(Percent.parse("12.345%", { places: 3 }).value.places()).toBe(3);
+  });
+
+  test("convert to and from decimals", () => {
+    expect(Percent.parse("12.5%").toDecimal().toString()).toBe("0.125");
+    expect(BasisPoints.parse("25bp").toDecimal().toString()).toBe("0.0025");
+    expect(Percent.fromDecimal("0.075").toString()).toBe("7.5%");
+    expect(BasisPoints.fromDecimal(FP2("0.01")).toString()).toBe("100bp");
+    expect(Percent.of("5").toBasisPoints().toString()).toBe("500bp");
+    expect(BasisPoints.of("25").toPercent().toString()).toBe("0.25%");
+  });
+
+  test("decimals keep every digit", () => {
+    const percent = Percent.of(FP2("0.01"));
+    expect(percent.value.places()).toBe(2);
+    expect(percent.toDecimal().places()).toBe(4);
+    expect(percent.toDecimal().toString()).toBe("0.0001");
+    expect(BasisPoints.of(FP2("0.01")).toDecimal().toString()).toBe("0.000001");
+  });
+
+  test("apply to amounts", () => {
+    const vat = Percent.parse("20%");
+    expect(vat.applyTo(FP2("49.99")).toString()).toBe("10");
+    expect(vat.addTo(FP2("49.99")).toString()).toBe("59.99");
+    expect(vat.subtractFrom(FP2("49.99")).toString()).toBe("39.99");
+    expect(BasisPoints.of("25").applyTo(FP2("1000000")).toString()).toBe(
+      "2500",
+    );
+    expect(Percent.of("12.5").applyTo(FP2("19.99")).toString()).toBe("2.5");
+  });
+
+  test("apply to money", () => {
+    const price = Money.of("10.00", "EUR");
+    expect(Percent.of("12.5").applyTo(price).toString()).toBe("1.25 EUR");
+    expect(Percent.of("7").addTo(price).toString()).toBe("10.70 EUR");
+    expect(BasisPoints.of("50").subtractFrom(price).toString()).toBe(
+      "9.95 EUR",
+    );
+    expect(Money.of("100", "USD").mul(Percent.of(7)).toString()).toBe(
+      "7.00 USD",
+    );
+  });
+
+  test("accepted as rates", () => {
+    expect(FP2("100").addPercentage(Percent.parse("20%")).toString()).toBe(
+      "120",
+    );
+    expect(
+      FP2("100")
+        .tax([Percent.of(5), BasisPoints.of(250)])
+        .tax.toString(),
+    ).toBe("7.5");
+    expect(FP2("100").discount(Percent.of(10)).net.toString()).toBe("90");
+    expect(
+      FP2("100")
+        .allocate([Percent.of(60), Percent.of(40)])
+        .map((part) => part.toString()),
+    ).toEqual(["60", "40"]);
+  });
+
+  test("format with suffixes", () => {
+    expect(Percent.of("1234.5").toFormat({ minimumFractionDigits: 2 })).toBe(
+      "1,234.50%",
+    );
+    expect(Percent.of("-5").toFormat()).toBe("-5%");
+    expect(Percent.of("1234.5").toFormat({ locale: "de-DE" })).toBe(
+      "1.234,5\u00a0%",
+    );
+    expect(Percent.of("5").toFormat({ locale: "tr-TR" })).toBe("%5");
+    expect(Percent.of("5").toFormat({ signDisplay: "always" })).toBe("+5%");
+    expect(() => Percent.of("5").toFormat({ locale: "xx-invalid-" })).toThrow(
+      "Invalid locale",
+    );
+    expect(BasisPoints.of("1500").toFormat()).toBe("1,500bp");
+    expect(JSON.stringify({ rate: Percent.of("5.25") })).toBe(
+      '{"rate":"5.25%"}',
+    );
+  });
+
+  test("type guards", () => {
+    expect(Percent.isPercent(Percent.of(5))).toBe(true);
+    expect(Percent.isPercent(BasisPoints.of(5))).toBe(false);
+    expect(BasisPoints.isBasisPoints(BasisPoints.of(5))).toBe(true);
+    expect(BasisPoints.isBasisPoints("5bp")).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  DomainError,
+  type TaxBreakdown,
+} from "../src/FixedPrecision";
+
+const FP2 = FixedPrecision.create({ places: 2 });
+
+function summary(breakdown: TaxBreakdown): string[] {
+  return [
+    breakdown.net.toString(),
+    breakdown.taxes.map(String).join("+"),
+    breakdown.tax.toString(),
+    breakdown.gross.toString(),
+  ];
+}
+
+describe("Pricing", () => {
+  test("add and remove a percentage", () => {
+    expect(FP2("100").addPercentage("0.2").toString()).toBe("120");
+    expect(FP2("120").removePercentage("0.2").toString()).toBe("100");
+    expect(FP2("10").removePercentage("0.21").toString()).toBe("8.26");
+    expect(FP2("10").removePercentage("0.21", 1).toString()).toBe("8.26");
+    expect(FP2("9.99").addPercentage("0.075", 2).toString()).toBe("10.74");
+    expect(() => FP2("1").removePercentage("-1")).toThrow(DomainError);
+  });
+
+  test("exclusive and inclusive taxes", () => {
+    expect(summary(FP2("100").tax("0.2"))).toEqual(["100", "20", "20", "120"]);
+    expect(summary(FP2("120").tax("0.2", { mode: "inclusive" }))).toEqual([
+      "100",
+      "20",
+      "20",
+      "120",
+    ]);
+    expect(summary(FP2("10").tax("0.21", { mode: "inclusive" }))).toEqual([
+      "8.26",
+      "1.74",
+      "1.74",
+      "10",
+    ]);
+    expect(summary(FP2("10").tax([]))).toEqual(["10", "", "0", "10"]);
+  });
+
+  test("multiple and compound taxes", () => {
+    expect(summary(FP2("100").tax(["0.05", "0.09975"]))).toEqual([
+      "100",
+      "5+9.98",
+      "14.98",
+      "114.98",
+    ]);
+    expect(
+      summary(FP2("114.98").tax(["0.05", "0.09975"], { mode: "inclusive" })),
+    ).toEqual(["100", "5+9.98", "14.98", "114.98"]);
+    expect(
+      summary(FP2("100").tax(["0.05", "0.095"], { compound: true })),
+    ).toEqual(["100", "5+9.98", "14.98", "114.98"]);
+    expect(
+      summary(
+        FP2("50").tax(["0.05", "0.095"], { mode: "inclusive", compound: true }),
+      ),
+    ).toEqual(["43.49", "2.17+4.34", "6.51", "50"]);
+  });
+
+  test("invoice rounding", () => {
+    const lines = [FP2("0.99"), FP2("0.99"), FP2("0.99")];
+    const perLine = FixedPrecision.invoiceTax(lines, "0.2");
+    expect(summary(perLine)).toEqual(["2.97", "0.6", "0.6", "3.57"]);
+    expect(perLine.lines.map(summary)[0]).toEqual([
+      "0.99",
+      "0.2",
+      "0.2",
+      "1.19",
+    ]);
+
+    const perInvoice = FixedPrecision.invoiceTax(lines, "0.2", {
+      rounding: "invoice",
+    });
+    expect(summary(perInvoice)).toEqual(["2.97", "0.59", "0.59", "3.56"]);
+    expect(perInvoice.lines.map((line) => line.tax.toString())).toEqual([
+      "0.2",
+      "0.2",
+      "0.19",
+    ]);
+
+    const inclusive = FixedPrecision.invoiceTax(
+      [FP2("1.19"), FP2("1.19"), FP2("1.18")],
+      "0.19",
+      { mode: "inclusive", rounding: "invoice" },
+    );
+    expect(summary(inclusive)).toEqual(["2.99", "0.57", "0.57", "3.56"]);
+    expect(
+      FixedPrecision.sum(inclusive.lines.map((line) => line.net)).toString(),
+    ).toBe("2.99");
+  });
+
+  test("stacked discounts", () => {
+    const breakdown = FP2("100").discount(["0.1", "0.05"]);
+    expect(breakdown.original.toString()).toBe("100");
+    expect(breakdown.discounts.map(String)).toEqual(["10", "4.5"]);
+    expect(breakdown.discount.toString()).toBe("14.5");
+    expect(breakdown.net.toString()).toBe("85.5");
+    expect(FP2("19.99").discount("0.15").net.toString()).toBe("16.99");
+  });
+
+  test("invalid rates throw", () => {
+    expect(() => FP2("1").tax("-0.1")).toThrow(
+      "Tax rates must be non-negative",
+    );
+    expect(() => FP2("1").discount("1.5")).toThrow(
+      "Discount rates must be between 0 and 1",
+    );
+    expect(() => FP2("1").tax("0.1", { mode: "net" as "inclusive" })).toThrow(
+      DomainError,
+    );
+    expect(() =>
+      FixedPrecision.invoiceTax([FP2("1"), FP2("-1")], "0.1", {
+        rounding: "invoice",
+      }),
+    ).toThrow("Invoice rounding needs non-negative line amounts");
+  });
+});
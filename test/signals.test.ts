@@ -0,0 +1,152 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  DivisionByZeroError,
+  SignalError,
+} from "../src/FixedPrecision";
+import Minimal from "../src/Minimal";
+
+describe("Signals", () => {
+  test("rounding sets Rounded and Inexact", () => {
+    const FP8 = FixedPrecision.create({ places: 8 });
+    const a = FP8("1");
+    expect(a.div("3").toString()).toBe("0.33333333");
+    expect(a.flags()).toEqual(["Inexact", "Rounded"]);
+
+    a.clearFlags();
+    expect(a.flags()).toEqual([]);
+    expect(a.div("4").toString()).toBe("0.25");
+    expect(a.flags()).toEqual(["Rounded"]);
+
+    a.clearFlags();
+    expect(a.add("1").toString()).toBe("2");
+    expect(a.flags()).toEqual([]);
+  });
+
+  test("flags are shared by the context", () => {
+    const FP2 = FixedPrecision.create({ places: 2 });
+    const other = FixedPrecision.create({ places: 2 })("1");
+    FP2("1.05").round(1);
+    expect(FP2("0").flags()).toEqual(["Inexact", "Rounded"]);
+    expect(other.flags()).toEqual([]);
+  });
+
+  test("round, scale, prec and toNearest", () => {
+    const FP4 = FixedPrecision.create({ places: 4 });
+    const a = FP4("1.5");
+    a.round(1);
+    expect(a.flags()).toEqual(["Rounded"]);
+    a.clearFlags();
+    a.scale(0);
+    expect(a.flags()).toEqual(["Inexact", "Rounded"]);
+    a.clearFlags();
+    a.scale(6);
+    expect(a.flags()).toEqual([]);
+    a.prec(1);
+    expect(a.flags()).toEqual(["Inexact", "Rounded"]);
+    a.clearFlags();
+    a.toNearest("0.5");
+    expect(a.flags()).toEqual(["Rounded"]);
+    a.clearFlags();
+    expect(a.toFixed(0)).toBe("2");
+    expect(a.toExponential(0)).toBe("2e0");
+    expect(a.flags()).toEqual([]);
+  });
+
+  test("clamp sets Clamped", () => {
+    const FP2 = FixedPrecision.create({ places: 2 });
+    expect(FP2("5").clamp("0", "10").flags()).toEqual([]);
+    expect(FP2("15").clamp("0", "10").toString()).toBe("10");
+    expect(FP2("0").flags()).toEqual(["Clamped"]);
+  });
+
+  test("traps throw SignalError", () => {
+    const FP2 = FixedPrecision.create({ places: 2, traps: ["Inexact"] });
+    expect(FP2("1").div("4").toString()).toBe("0.25");
+    expect(() => FP2("1").div("3")).toThrow(SignalError);
+    expect(() => FP2("0.5").mul("0.33")).toThrow(
+      expect.objectContaining({
+        signal: "Inexact",
+        message: "Inexact result",
+      }),
+    );
+    expect(FP2("0").flags()).toEqual(["Inexact", "Rounded"]);
+  });
+
+  test("untrapped division by zero returns zero", () => {
+    const FP2 = FixedPrecision.create({ places: 2, traps: [] });
+    expect(FP2("1").div("0").toString()).toBe("0");
+    expect(FP2("0").flags()).toEqual(["DivisionByZero"]);
+    FP2("0").clearFlags();
+    expect(FP2("0").mod("0").toString()).toBe("0");
+    expect(FP2("0").flags()).toEqual(["InvalidOperation"]);
+    FP2("0").clearFlags();
+    expect(FP2("0").pow(-2).toString()).toBe("0");
+    expect(FP2("0").flags()).toEqual(["DivisionByZero"]);
+  });
+
+  test("division by zero is trapped by default", () => {
+    const FP2 = FixedPrecision.create({ places: 2 });
+    expect(() => FP2("1").div("0")).toThrow("Division by zero");
+    expect(() => FP2("1").idiv("0")).toThrow("Division by zero");
+    expect(() => FP2("1").ratio("0")).toThrow("Division by zero");
+    expect(() => FP2("0").div("0")).toThrow("Division undefined");
+    expect(() => FP2("0").pow(-1)).toThrow(DivisionByZeroError);
+  });
+
+  test("toNumber sets Overflow", () => {
+    const FP0 = FixedPrecision.create({ places: 0 });
+    const big = FP0(10n ** 400n);
+    expect(big.toNumber()).toBe(Infinity);
+    expect(big.flags()).toEqual(["Overflow"]);
+
+    const trapped = FixedPrecision.create({ places: 0, traps: ["Overflow"] });
+    expect(() => trapped(10n ** 400n).toNumber()).toThrow(
+      "Result overflows the number range",
+    );
+  });
+
+  test("default context flags and traps", () => {
+    FixedPrecision.configure({ places: 8, traps: ["Rounded"] });
+    FixedPrecision.clearFlags();
+    expect(() => new FixedPrecision("1").div("3")).toThrow(SignalError);
+    expect(FixedPrecision.flags()).toEqual(["Rounded"]);
+
+    FixedPrecision.configure({
+      places: 8,
+      traps: ["DivisionByZero", "InvalidOperation"],
+    });
+    FixedPrecision.clearFlags();
+    expect(FixedPrecision.flags()).toEqual([]);
+  });
+
+  test("invalid traps throw", () => {
+    expect(() =>
+      FixedPrecision.create({
+        places: 2,
+        traps: ["Unknown" as "Inexact"],
+      }),
+    ).toThrow(
+      "Invalid signal. Must be one of Clamped, DivisionByZero, Inexact, InvalidOperation, Overflow, Rounded",
+    );
+  });
+
+  test("minimal build flags and traps", () => {
+    const M2 = Minimal.create({ places: 2 });
+    expect(M2("1").div("3").toString()).toBe("0.33");
+    expect(M2("0").flags()).toEqual(["Inexact", "Rounded"]);
+    M2("0").clearFlags();
+    expect(M2("0").flags()).toEqual([]);
+    expect(() => M2("1").div("0")).toThrow(DivisionByZeroError);
+
+    const Untrapped = Minimal.create({ places: 2, traps: [] });
+    expect(Untrapped("1").div("0").toString()).toBe("0");
+    expect(Untrapped("0").flags()).toEqual(["DivisionByZero"]);
+
+    const Strict = Minimal.create({ places: 2, traps: ["Inexact"] });
+    expect(() => Strict("1").div("3")).toThrow(SignalError);
+    expect(() =>
+      Minimal.create({ places: 2, traps: ["Loud" as "Inexact"] }),
+    ).toThrow("Invalid signal");
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, test } from "vitest";
 
-import FixedPrecision from "../src/FixedPrecision";
+import FixedPrecision, { DomainError } from "../src/FixedPrecision";
 
 const FP4 = FixedPrecision.create({ places: 4, roundingMode: 4 });
 const FP8 = FixedPrecision.create({ places: 8, roundingMode: 4 });
@@ -87,4 +87,136 @@ describe("Statistics", () => {
     expect(FixedPrecision.hypot().toString()).toBe("0");
     expect(FixedPrecision.hypot(FP4("3"), FP8("4")).toString()).toBe("5");
   });
+
+  test("mean, median, mode and range", () => {
+    const values = [FP4("2"), "4", "4", "4", "5", "5", "7", "9"];
+    expect(FixedPrecision.mean(values).toString()).toBe("5");
+    expect(FixedPrecision.median(values).toString()).toBe("4.5");
+    expect(FixedPrecision.mode(values).map(String)).toEqual(["4"]);
+    expect(FixedPrecision.mode(FP4("1"), "2", "2", "1", "3").map(String)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(FixedPrecision.range(values).toString()).toBe("7");
+    expect(FixedPrecision.median(FP8("3"), FP4("1"), FP16("2")).toString()).toBe("2");
+  });
+
+  test("mean rounds once in the first context", () => {
+    const FP2 = FixedPrecision.create({ places: 2 });
+    expect(FixedPrecision.mean(FP2("1"), "1", "2").toString()).toBe("1.33");
+    expect(FP2("0").flags()).toEqual(["Inexact", "Rounded"]);
+    expect(FixedPrecision.median([FP2("0.01"), "0.02"]).toString()).toBe("0.02");
+    expect(FixedPrecision.mean(FP20("1"), FP4("2")).places()).toBe(20);
+  });
+
+  test("weightedMean", () => {
+    expect(
+      FixedPrecision.weightedMean([FP4("80"), "90", "70"], ["0.5", "0.3", "0.2"]).toString(),
+    ).toBe("81");
+    expect(FixedPrecision.weightedMean([FP4("10"), "20"], [3, 1]).toString()).toBe("12.5");
+    expect(() => FixedPrecision.weightedMean([FP4("1")], ["1", "2"])).toThrow(
+      "Values and weights must have the same length",
+    );
+    expect(() => FixedPrecision.weightedMean([FP4("1"), "2"], ["1", "-1"])).toThrow(
+      "Weights must be non-negative with a positive total",
+    );
+  });
+
+  test("variance and stddev", () => {
+    const values = [FP4("2"), "4", "4", "4", "5", "5", "7", "9"];
+    expect(FixedPrecision.variance(values).toString()).toBe("4");
+    expect(FixedPrecision.stddev(values).toString()).toBe("2");
+    expect(FixedPrecision.sampleVariance(values).toString()).toBe("4.5714");
+    expect(FixedPrecision.sampleStddev(values).toString()).toBe("2.1381");
+    expect(FixedPrecision.stddev(["1", "2", "3", "4"]).toString()).toBe(
+      "1.11803399",
+    );
+    const Down = FixedPrecision.create({ places: 2, roundingMode: 1 });
+    expect(FixedPrecision.stddev([Down("1"), "2", "3", "4"]).toString()).toBe(
+      "1.11",
+    );
+    expect(FixedPrecision.variance(FP8("1.5")).toString()).toBe("0");
+    expect(() => FixedPrecision.sampleVariance(FP8("1.5"))).toThrow(
+      "Sample variance needs at least two values",
+    );
+  });
+
+  test("quantile and percentile", () => {
+    const values = [FP4("4"), "1", "3", "2"];
+    expect(FixedPrecision.quantile(values, "0.4").toString()).toBe("2.2");
+    expect(FixedPrecision.quantile(values, "0.4", "lower").toString()).toBe("2");
+    expect(FixedPrecision.quantile(values, "0.4", "higher").toString()).toBe("3");
+    expect(FixedPrecision.quantile(values, "0.4", "nearest").toString()).toBe("2");
+    expect(FixedPrecision.quantile(values, "0.4", "midpoint").toString()).toBe("2.5");
+    expect(FixedPrecision.quantile(values, 1).toString()).toBe("4");
+    expect(FixedPrecision.percentile(values, 50).toString()).toBe("2.5");
+    expect(FixedPrecision.percentile(values, 50, "nearest").toString()).toBe("3");
+    expect(FixedPrecision.percentile(values, "0").toString()).toBe("1");
+    expect(() => FixedPrecision.quantile(values, "1.5")).toThrow(
+      "Quantile must be between 0 and 1",
+    );
+    expect(() => FixedPrecision.percentile(values, -1)).toThrow(
+      "Percentile must be between 0 and 100",
+    );
+    expect(() =>
+      FixedPrecision.quantile(values, "0.5", "average" as "linear"),
+    ).toThrow("Invalid quantile method. Must be linear, lower, higher, nearest or midpoint");
+  });
+
+  test("descriptive statistics need values", () => {
+    expect(() => FixedPrecision.mean([])).toThrow(
+      "FixedPrecision.mean requires at least one argument",
+    );
+    expect(() => FixedPrecision.median([])).toThrow(DomainError);
+    expect(() => FixedPrecision.quantile([], "0.5")).toThrow(
+      "FixedPrecision.quantile requires at least one argument",
+    );
+  });
+
+  test("covariance and correlation", () => {
+    const xs = [FP4("1"), "2", "3", "4", "5"];
+    const ys = ["2", "4.1", "5.9", "8.2", "9.8"];
+    expect(FixedPrecision.covariance(xs, ys).toString()).toBe("3.94");
+    expect(FixedPrecision.sampleCovariance(xs, ys).toString()).toBe("4.925");
+    expect(FixedPrecision.pearsonCorrelation(xs, ys).toString()).toBe("0.9988");
+    expect(FixedPrecision.pearsonCorrelation(xs, [...ys].reverse()).toString()).toBe("-0.9988");
+    expect(FixedPrecision.pearsonCorrelation([FP8("0"), "1", "2"], ["1", "3", "5"]).toString()).toBe("1");
+    expect(() => FixedPrecision.covariance(xs, ["1"])).toThrow(
+      "Series must have the same length",
+    );
+    expect(() => FixedPrecision.pearsonCorrelation([FP4("1"), "1"], ["1", "2"])).toThrow(
+      "Correlation is undefined when a series is constant",
+    );
+    expect(() => FixedPrecision.sampleCovariance([FP4("1")], ["1"])).toThrow(
+      "Sample covariance needs at least two values",
+    );
+  });
+
+  test("linearRegression", () => {
+    const model = FixedPrecision.linearRegression(
+      [FP4("1"), "2", "3", "4", "5"],
+      ["2", "4.1", "5.9", "8.2", "9.8"],
+    );
+    expect(model.slope.toString()).toBe("1.97");
+    expect(model.intercept.toString()).toBe("0.09");
+    expect(model.rSquared.toString()).toBe("0.9977");
+    expect(model.predict(6).toString()).toBe("11.91");
+    expect(model.predict("2.5").toString()).toBe("5.015");
+
+    const flat = FixedPrecision.linearRegression([FP4("0"), "1", "2"], ["7", "7", "7"]);
+    expect(flat.slope.toString()).toBe("0");
+    expect(flat.intercept.toString()).toBe("7");
+    expect(flat.rSquared.toString()).toBe("1");
+    expect(() => FixedPrecision.linearRegression([FP4("1"), "1"], ["1", "2"])).toThrow(
+      "Regression needs at least two distinct x values",
+    );
+  });
+
+  test("regression predictions are rounded once", () => {
+    const FP2 = FixedPrecision.create({ places: 2 });
+    const model = FixedPrecision.linearRegression([FP2("0"), "1", "2"], ["0", "1", "1"]);
+    expect(model.slope.toString()).toBe("0.5");
+    expect(model.intercept.toString()).toBe("0.17");
+    expect(model.predict(10).toString()).toBe("5.17");
+  });
 });
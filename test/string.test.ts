@@ -1,7 +1,6 @@
 import { describe, expect, test } from "vitest";
-
-import FixedPrecision from "../src/FixedPrecision";
 import type { RoundingMode } from "../src/FixedPrecision";
+import FixedPrecision, { ParseError } from "../src/FixedPrecision";
 
 const FP8 = FixedPrecision.create({ places: 8, roundingMode: 4 });
 
@@ -56,6 +55,118 @@ describe("String", () => {
     expect(FP8("-.5").toString()).toBe("-0.5");
   });
 
+  test("fromString accepts signs and long digit strings", () => {
+    expect(FP8("+1.5").toString()).toBe("1.5");
+    expect(FP8("5.").toString()).toBe("5");
+    expect(FP8("007.25").toString()).toBe("7.25");
+    expect(FP8("123456789012345678901234567890.12345678").toString()).toBe(
+      "123456789012345678901234567890.12345678",
+    );
+    expect(FP8("9007199254740993.00000001").raw()).toBe(
+      900719925474099300000001n,
+    );
+  });
+
+  test("fromString rejects malformed input with the index", () => {
+    const cases: [string, string][] = [
+      ["1.2.3", 'Unexpected character "." at index 3'],
+      ["12abc", 'Unexpected character "a" at index 2'],
+      [" ", 'Unexpected character " " at index 0'],
+      [" 1", 'Unexpected character " " at index 0'],
+      ["", "Expected a digit at index 0"],
+      ["-", "Expected a digit at index 1"],
+      [".", "Expected a digit at index 0"],
+      ["--1", 'Unexpected character "-" at index 1'],
+    ];
+    for (const [input, message] of cases) {
+      expect(() => FP8(input)).toThrow(message);
+    }
+
+    expect(() => FP8("12abc")).toThrow(
+      expect.objectContaining({ code: "PARSE_ERROR", index: 2 }),
+    );
+  });
+
+  test("fromString scientific notation", () => {
+    expect(FP8("1.23e-7").toString()).toBe("0.00000012");
+    expect(FP8("1.23E+4").toString()).toBe("12300");
+    expect(FP8("-1.5e3").toString()).toBe("-1500");
+    expect(FP8("12345678901234567890e-20").toString()).toBe("0.12345679");
+    expect(FP8("5e-9").toString()).toBe("0.00000001");
+    expect(FP8("1e-999999999").toString()).toBe("0");
+    expect(FP8("0e999999999").toString()).toBe("0");
+    expect(FP8("1e40").toString()).toBe(`1${"0".repeat(40)}`);
+    expect(() => FP8("1e")).toThrow("Expected a digit at index 2");
+    expect(() => FP8("1e+")).toThrow("Expected a digit at index 3");
+    expect(() => FP8("1e999999999")).toThrow("Exponent is too large");
+
+    const FloorFP2 = FixedPrecision.create({ places: 2, roundingMode: 3 });
+    expect(FloorFP2("-1.231e0").toString()).toBe("-1.24");
+  });
+
+  test("fromString round-trips toExponential and toPrecision", () => {
+    for (const input of ["0.00000123", "12345", "-0.0001234", "98765.4321"]) {
+      const value = FP8(input);
+      expect(FP8(value.toExponential()).eq(value)).toBe(true);
+      expect(FP8(value.toPrecision(3)).toPrecision(3)).toBe(
+        value.toPrecision(3),
+      );
+    }
+    expect(FP8("1e21").toPrecision(3)).toBe("1.00e+21");
+    expect(FP8("1.00e+21").eq(FP8("1e21"))).toBe(true);
+  });
+
+  test("fromString rounds excess digits", () => {
+    const USD = FixedPrecision.create({ places: 2 });
+    expect(USD("0.999").toString()).toBe("1");
+    expect(USD("-0.995").toString()).toBe("-1");
+    expect(USD(0.999).toString()).toBe("1");
+    expect(USD("0.994").flags()).toEqual(["Inexact", "Rounded"]);
+
+    const Even = FixedPrecision.create({ places: 2, roundingMode: 6 });
+    expect(Even("0.125").toString()).toBe("0.12");
+    expect(Even("0.135").toString()).toBe("0.14");
+  });
+
+  test("fromString excess digits policy", () => {
+    const Truncate = FixedPrecision.create({
+      places: 2,
+      onExcessDigits: "truncate",
+    });
+    expect(Truncate("0.999").toString()).toBe("0.99");
+    expect(Truncate("-0.999").toString()).toBe("-0.99");
+    expect(Truncate(1.239).toString()).toBe("1.23");
+
+    const Throw = FixedPrecision.create({ places: 2, onExcessDigits: "throw" });
+    expect(Throw("1.2300").toString()).toBe("1.23");
+    expect(Throw("123e-2").toString()).toBe("1.23");
+    expect(() => Throw("1.234")).toThrow(ParseError);
+    expect(() => Throw("1.234")).toThrow(
+      "Value has more than 2 decimal places",
+    );
+
+    expect(() =>
+      FixedPrecision.create({
+        places: 2,
+        onExcessDigits: "floor" as "round",
+      }),
+    ).toThrow('Invalid onExcessDigits. Must be "round", "truncate" or "throw"');
+  });
+
+  test("fromString bare decimal point flag", () => {
+    const Strict = FixedPrecision.create({
+      places: 2,
+      allowBareDecimalPoint: false,
+    });
+    expect(Strict("0.5").toString()).toBe("0.5");
+    expect(() => Strict(".5")).toThrow(
+      'Expected a digit before "." at index 0',
+    );
+    expect(() => Strict("-5.")).toThrow(
+      'Expected a digit after "." at index 2',
+    );
+  });
+
   test("prec default half-up", () => {
     const x = FP8("9876.54321");
     expect(x.prec(2).toString()).toBe("9900");
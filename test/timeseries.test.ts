@@ -0,0 +1,179 @@
+import { describe, expect, test } from "vitest";
+
+import FixedPrecision, {
+  DivisionByZeroError,
+  DomainError,
+} from "../src/FixedPrecision";
+
+const FP2 = FixedPrecision.create({ places: 2 });
+const FP4 = FixedPrecision.create({ places: 4 });
+
+function strings(values: FixedPrecision[]): string[] {
+  return values.map((value) => value.toString());
+}
+
+describe("Time series", () => {
+  const prices = [
+    FP2("22.27"),
+    "22.19",
+    "22.08",
+    "22.17",
+    "22.18",
+    "22.13",
+    "22.23",
+    "22.43",
+    "22.24",
+    "22.29",
+    "22.15",
+    "22.39",
+  ];
+
+  test("sma", () => {
+    expect(strings(FixedPrecision.sma(prices, 10))).toEqual([
+      "22.22",
+      "22.21",
+      "22.23",
+    ]);
+    expect(strings(FixedPrecision.sma([FP4("1"), "2", "4"], 2))).toEqual([
+      "1.5",
+      "3",
+    ]);
+    expect(FixedPrecision.sma(prices, 13)).toEqual([]);
+  });
+
+  test("ema is seeded with the sma", () => {
+    expect(strings(FixedPrecision.ema(prices, 10))).toEqual([
+      "22.22",
+      "22.21",
+      "22.24",
+    ]);
+    expect(strings(FixedPrecision.ema([FP4("1"), "2", "3", "4"], 1))).toEqual([
+      "1",
+      "2",
+      "3",
+      "4",
+    ]);
+    expect(FixedPrecision.ema([FP4("1")], 2)).toEqual([]);
+  });
+
+  test("wma", () => {
+    expect(
+      strings(FixedPrecision.wma([FP2("1"), "2", "3", "4", "5"], 3)),
+    ).toEqual(["2.33", "3.33", "4.33"]);
+    expect(strings(FixedPrecision.wma([FP4("10"), "0", "0", "10"], 2))).toEqual(
+      ["3.3333", "0", "6.6667"],
+    );
+  });
+
+  test("rolling sum, min and max", () => {
+    const values = [FP2("3"), "1", "4", "1", "5", "9", "2"];
+    expect(strings(FixedPrecision.rollingSum(values, 3))).toEqual([
+      "8",
+      "6",
+      "10",
+      "15",
+      "16",
+    ]);
+    expect(strings(FixedPrecision.rollingMin(values, 3))).toEqual([
+      "1",
+      "1",
+      "1",
+      "1",
+      "2",
+    ]);
+    expect(strings(FixedPrecision.rollingMax(values, 3))).toEqual([
+      "4",
+      "4",
+      "5",
+      "9",
+      "9",
+    ]);
+    expect(strings(FixedPrecision.rollingMax(values, 1))).toEqual(
+      strings(values.map((value) => FP2(value))),
+    );
+  });
+
+  test("rolling stddev", () => {
+    const values = [FP2("2"), "4", "4", "4", "5", "5", "7", "9"];
+    expect(strings(FixedPrecision.rollingStddev(values, 4))).toEqual([
+      "0.87",
+      "0.43",
+      "0.5",
+      "1.09",
+      "1.66",
+    ]);
+    expect(strings(FixedPrecision.rollingSampleStddev(values, 2))).toEqual([
+      "1.41",
+      "0",
+      "0",
+      "0.71",
+      "0",
+      "1.41",
+      "1.41",
+    ]);
+    expect(strings(FixedPrecision.rollingStddev(values, 8))).toEqual([
+      FixedPrecision.stddev(values).toString(),
+    ]);
+    expect(() => FixedPrecision.rollingSampleStddev(values, 1)).toThrow(
+      "Sample variance needs at least two values",
+    );
+  });
+
+  test("cumulative sum of any iterable", () => {
+    const values = new Set([FP2("1.5"), "2", "-0.5"]);
+    expect(strings(FixedPrecision.cumulativeSum(values))).toEqual([
+      "1.5",
+      "3.5",
+      "3",
+    ]);
+    expect(FixedPrecision.cumulativeSum([])).toEqual([]);
+  });
+
+  test("percent change", () => {
+    expect(
+      strings(FixedPrecision.percentChange([FP2("100"), "110", "99"])),
+    ).toEqual(["0.1", "-0.1"]);
+    expect(
+      strings(
+        FixedPrecision.percentChange([FP4("100"), "110", "99", "120"], 2),
+      ),
+    ).toEqual(["-0.01", "0.0909"]);
+    expect(() => FixedPrecision.percentChange([FP2("0"), "1"])).toThrow(
+      DivisionByZeroError,
+    );
+  });
+
+  test("percent change from a zero base", () => {
+    expect(() => FixedPrecision.percentChange([FP2("0"), "1"])).toThrow(
+      expect.objectContaining({ signal: "DivisionByZero" }),
+    );
+    expect(() => FixedPrecision.percentChange([FP2("0"), "0"])).toThrow(
+      expect.objectContaining({ signal: "InvalidOperation" }),
+    );
+
+    const Untrapped = FixedPrecision.create({ places: 2, traps: [] });
+    expect(
+      strings(FixedPrecision.percentChange([Untrapped("0"), "1", "0", "0"])),
+    ).toEqual(["0", "-1", "0"]);
+    expect(Untrapped("0").flags()).toEqual(
+      expect.arrayContaining(["DivisionByZero", "InvalidOperation"]),
+    );
+  });
+
+  test("results use the input context", () => {
+    const [average] = FixedPrecision.sma([FP4("1"), FP2("2"), "3.00005"], 3);
+    expect(average.places()).toBe(4);
+    expect(average.toString()).toBe("2");
+    expect(FixedPrecision.sma([1, 2], 2)[0].places()).toBe(8);
+  });
+
+  test("windows must be positive integers", () => {
+    expect(() => FixedPrecision.sma(prices, 0)).toThrow(DomainError);
+    expect(() => FixedPrecision.rollingMin(prices, 1.5)).toThrow(
+      "Window must be a positive integer",
+    );
+    expect(() => FixedPrecision.percentChange(prices, 0)).toThrow(
+      "Periods must be a positive integer",
+    );
+  });
+});